@@ -3,9 +3,41 @@ import resolve from '@rollup/plugin-node-resolve';
 import commonjs from '@rollup/plugin-commonjs';
 import { terser } from 'rollup-plugin-terser';
 import json from '@rollup/plugin-json';
+import { rollup } from 'rollup';
 
 const dev = process.env.ROLLUP_WATCH;
 
+// `import source from 'worker:./file'` bundles ./file on its own and inlines
+// the result as a string, so the worker ships inside the card's single file
+// (HACS only installs the one) and is started from a blob: URL.
+function inlineWorker() {
+    const prefix = '\0worker:';
+    return {
+        name: 'inline-worker',
+        async resolveId(id, importer) {
+            if (!id.startsWith('worker:')) return null;
+            const resolved = await this.resolve(`${id.slice('worker:'.length)}.ts`, importer, { skipSelf: true });
+            return resolved && prefix + resolved.id;
+        },
+        async load(id) {
+            if (!id.startsWith(prefix)) return null;
+
+            const bundle = await rollup({
+                input: id.slice(prefix.length),
+                plugins: [
+                    resolve(),
+                    typescript({ declaration: false, declarationMap: false }),
+                    !dev && terser(),
+                ],
+            });
+            const { output } = await bundle.generate({ format: 'iife' });
+            bundle.watchFiles.forEach(file => this.addWatchFile(file));
+            await bundle.close();
+            return `export default ${JSON.stringify(output[0].code)};`;
+        },
+    };
+}
+
 export default {
     input: 'src/meteoswiss-radar-card.ts',
     output: {
@@ -15,6 +47,7 @@ export default {
         inlineDynamicImports: true,
     },
     plugins: [
+        inlineWorker(),
         resolve(),
         commonjs(),
         json(),
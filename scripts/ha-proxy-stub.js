@@ -0,0 +1,80 @@
+// Stand-in for a Home Assistant instance running a MeteoSwiss proxy
+// integration, for exercising `proxy_mode: home_assistant` locally.
+//
+//   npm run build && npm run start:ha
+//   open http://127.0.0.1:8123/index.html?proxy_mode=home_assistant
+//
+// Serves the repository like `npm start` does, and forwards
+// /api/meteoswiss/<path> to https://www.meteoswiss.admin.ch/<path> - but only
+// with the bearer token index.html's mock `hass` sends, like the real API would.
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+
+const PORT = Number(process.env.PORT) || 8123;
+const TOKEN = process.env.HA_TOKEN || 'dev-token';
+const API_PREFIX = '/api/meteoswiss/';
+const UPSTREAM = 'https://www.meteoswiss.admin.ch/';
+const ROOT = path.resolve(__dirname, '..');
+
+const CONTENT_TYPES = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.map': 'application/json',
+    '.json': 'application/json',
+    '.gif': 'image/gif',
+};
+
+async function proxy(req, res) {
+    if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: 'Unauthorized' }));
+        return;
+    }
+
+    const target = UPSTREAM + req.url.slice(API_PREFIX.length);
+    try {
+        const upstream = await fetch(target);
+        const body = Buffer.from(await upstream.arrayBuffer());
+        res.writeHead(upstream.status, {
+            'Content-Type': upstream.headers.get('content-type') || 'application/json',
+            'Cache-Control': upstream.headers.get('cache-control') || 'no-cache',
+        });
+        res.end(body);
+    } catch (e) {
+        res.writeHead(502, { 'Content-Type': 'text/plain' });
+        res.end(`Upstream request failed: ${e.message}`);
+    }
+}
+
+function serveStatic(req, res) {
+    const urlPath = decodeURIComponent(new URL(req.url, 'http://localhost').pathname);
+    const file = path.join(ROOT, urlPath === '/' ? 'index.html' : urlPath);
+
+    if (!file.startsWith(ROOT + path.sep)) {
+        res.writeHead(403);
+        res.end();
+        return;
+    }
+
+    fs.readFile(file, (err, data) => {
+        if (err) {
+            res.writeHead(404);
+            res.end('Not found');
+            return;
+        }
+        res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] || 'application/octet-stream' });
+        res.end(data);
+    });
+}
+
+http.createServer((req, res) => {
+    if (req.url.startsWith(API_PREFIX)) {
+        proxy(req, res);
+    } else {
+        serveStatic(req, res);
+    }
+}).listen(PORT, () => {
+    console.log(`Home Assistant proxy stub on http://127.0.0.1:${PORT}/index.html?proxy_mode=home_assistant`);
+    console.log(`Accepting bearer token "${TOKEN}"`);
+});
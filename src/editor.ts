@@ -10,18 +10,30 @@ interface LovelaceCardConfig {
     center_latitude?: number;
     center_longitude?: number;
     default_time?: DefaultTimeMode;
-    proxy_url?: string;
+    proxy_url?: string | string[];
+    proxy_mode?: 'cors' | 'home_assistant';
+    proxy_headers?: Record<string, string>;
+    proxy_token?: string;
     locale?: string;
     time_format?: '12' | '24';
+    archive_hours?: number;
 }
 
 @customElement('meteoswiss-radar-card-editor')
 export class MeteoSwissRadarCardEditor extends LitElement {
     @property({ attribute: false }) public hass?: any;
     @state() private _config?: LovelaceCardConfig;
+    // Header rows as edited, including drafts that have a value but no name
+    // yet and so cannot be in proxy_headers. undefined: as in the config.
+    @state() private _headerRows?: Array<[string, string]>;
 
     public setConfig(config: LovelaceCardConfig): void {
         this._config = config;
+        // Home Assistant echoes every change back through here; only headers
+        // changed elsewhere (e.g. in the YAML editor) replace the rows.
+        if (this._headerRows && !sameHeaders(namedHeaders(this._headerRows), config.proxy_headers)) {
+            this._headerRows = undefined;
+        }
     }
 
     static styles = css`
@@ -35,6 +47,17 @@ export class MeteoSwissRadarCardEditor extends LitElement {
             flex-direction: column;
             gap: 4px;
         }
+        .option[hidden] {
+            display: none;
+        }
+        .header-row {
+            display: flex;
+            gap: 8px;
+        }
+        .header-row input {
+            flex: 1;
+            min-width: 0;
+        }
         label {
             font-weight: 500;
         }
@@ -42,7 +65,8 @@ export class MeteoSwissRadarCardEditor extends LitElement {
             color: var(--secondary-text-color, #777);
         }
         input,
-        select {
+        select,
+        textarea {
             padding: 8px;
             border: 1px solid #ccc;
             border-radius: 4px;
@@ -86,15 +110,70 @@ export class MeteoSwissRadarCardEditor extends LitElement {
                     </select>
                 </div>
                 <div class="option">
-                    <label>CORS Proxy URL (Optional)</label>
+                    <label>Archive Hours (Optional, up to 72)</label>
                     <input
-                        type="text"
-                        placeholder="https://your-worker.workers.dev/?url={url}"
-                        .value=${this._config.proxy_url || ''}
+                        type="number"
+                        min="0"
+                        max="72"
+                        .value=${this._config.archive_hours ?? ''}
                         @input=${this._valueChanged}
+                        .configValue=${'archive_hours'}
+                    />
+                </div>
+                <div class="option">
+                    <label>Fetch Radar Data Through</label>
+                    <select
+                        .value=${this._config.proxy_mode || 'cors'}
+                        @change=${this._valueChanged}
+                        .configValue=${'proxy_mode'}
+                    >
+                        <option value="cors">CORS proxy (default)</option>
+                        <option value="home_assistant">This Home Assistant instance</option>
+                    </select>
+                    <small>Home Assistant mode needs an integration serving MeteoSwiss under <code>/api/meteoswiss</code>.</small>
+                </div>
+                <div class="option" ?hidden=${this._config.proxy_mode === 'home_assistant'}>
+                    <label>CORS Proxy URLs (Optional)</label>
+                    <textarea
+                        rows="2"
+                        placeholder="https://your-worker.workers.dev/?url={url}"
+                        .value=${[this._config.proxy_url || []].flat().join('\n')}
+                        @change=${this._valueChanged}
                         .configValue=${'proxy_url'}
+                    ></textarea>
+                    <small>One per line, tried in order; later ones are fallbacks. Leave empty to use the shared public proxy (rate limited).</small>
+                </div>
+                <div class="option" ?hidden=${this._config.proxy_mode === 'home_assistant'}>
+                    <label>Proxy Bearer Token (Optional)</label>
+                    <input
+                        type="password"
+                        autocomplete="off"
+                        .value=${this._config.proxy_token || ''}
+                        @change=${this._valueChanged}
+                        .configValue=${'proxy_token'}
                     />
-                    <small>Leave empty to use the shared public proxy (rate limited).</small>
+                    <small>Sent as <code>Authorization: Bearer …</code> to your own proxies.</small>
+                </div>
+                <div class="option">
+                    <label>Proxy Request Headers (Optional)</label>
+                    ${this._editedHeaderRows().map(([name, value], index) => html`
+                        <div class="header-row">
+                            <input
+                                type="text"
+                                placeholder="Header, e.g. X-Api-Key"
+                                .value=${name}
+                                @change=${(ev: Event) => this._headerChanged(index, 'name', ev)}
+                            />
+                            <input
+                                type="password"
+                                autocomplete="off"
+                                placeholder="Value"
+                                .value=${value}
+                                @change=${(ev: Event) => this._headerChanged(index, 'value', ev)}
+                            />
+                        </div>
+                    `)}
+                    <small>Sent with every request to your own proxies, never to the shared public one. Values are hidden. A header without a name is not sent; clear both fields to remove it.</small>
                 </div>
                 <div class="option">
                     <label>Date/Time Locale (Optional)</label>
@@ -156,9 +235,15 @@ export class MeteoSwissRadarCardEditor extends LitElement {
             return;
         }
 
-        let newValue: number | string | undefined = value;
-        if (configValue === 'zoom_level' || configValue === 'center_latitude' || configValue === 'center_longitude') {
+        let newValue: number | string | string[] | undefined = value;
+        if (configValue === 'zoom_level' || configValue === 'center_latitude' || configValue === 'center_longitude'
+            || configValue === 'archive_hours') {
             newValue = value === '' ? undefined : Number(value);
+        } else if (configValue === 'proxy_url') {
+            // A single proxy stays a plain string so existing YAML round-trips
+            // unchanged; only a real failover list becomes an array.
+            const proxies = value.split('\n').map((line: string) => line.trim()).filter(Boolean);
+            newValue = proxies.length > 1 ? proxies : proxies[0];
         } else if (value === '') {
             // Drop the key instead of writing an empty string, which would fail
             // the card's config validation (e.g. time_format: "").
@@ -169,7 +254,34 @@ export class MeteoSwissRadarCardEditor extends LitElement {
             ...this._config,
             [configValue]: newValue,
         };
+        this._fireConfigChanged();
+    }
+
+    // Header rows are edited as a list (the last row is always an empty one for
+    // adding) and written back as a mapping. Rows without a name stay in the
+    // editor until they get one; rows with neither name nor value go.
+    private _editedHeaderRows(): Array<[string, string]> {
+        return [...(this._headerRows ?? Object.entries(this._config?.proxy_headers || {})), ['', '']];
+    }
+
+    private _headerChanged(index: number, field: 'name' | 'value', ev: Event): void {
+        if (!this._config) {
+            return;
+        }
+        const rows = this._editedHeaderRows();
+        const input = (ev.target as HTMLInputElement).value;
+        rows[index] = field === 'name' ? [input.trim(), rows[index][1]] : [rows[index][0], input];
+        this._headerRows = rows.filter(([name, value]) => name || value);
 
+        const headers = namedHeaders(this._headerRows);
+        this._config = {
+            ...this._config,
+            proxy_headers: Object.keys(headers).length ? headers : undefined,
+        };
+        this._fireConfigChanged();
+    }
+
+    private _fireConfigChanged(): void {
         const event = new CustomEvent('config-changed', {
             detail: { config: this._config },
             bubbles: true,
@@ -178,3 +290,11 @@ export class MeteoSwissRadarCardEditor extends LitElement {
         this.dispatchEvent(event);
     }
 }
+
+function namedHeaders(rows: Array<[string, string]>): Record<string, string> {
+    return Object.fromEntries(rows.filter(([name]) => name));
+}
+
+function sameHeaders(a: Record<string, string>, b: Record<string, string> | undefined): boolean {
+    return JSON.stringify(Object.entries(a)) === JSON.stringify(Object.entries(b || {}));
+}
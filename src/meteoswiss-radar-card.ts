@@ -1,10 +1,28 @@
-import { LitElement, html, PropertyValues } from 'lit';
+import { LitElement, html, PropertyValues, render } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
 import * as L from 'leaflet';
 import { styles } from './styles';
-import { MeteoSwissAPI, MeteoSwissRadarFrame } from './utils/meteoswiss-api';
-import { decodeShape, MeteoSwissRadarJSON } from './utils/decoder';
+import { HomeAssistantAuth, MeteoSwissRadarFrame } from './utils/meteoswiss-api';
+import { DecodedFrame } from './utils/decoder';
+import { frameDecoder } from './utils/frame-decoder';
 import { throttle } from './utils/throttle';
+import {
+    createRadarDataSource,
+    DEFAULT_DATA_SOURCE,
+    PROXY_MODES,
+    ProxyMode,
+    RetryState,
+} from './utils/radar-data-source';
+import { getFrameStore, RadarFrameStore } from './utils/frame-store';
+import { RadarFormatError } from './utils/validate';
+import { RadarLayer } from './utils/radar-layer';
+import { RADAR_RENDERERS, RadarRenderer } from './utils/radar-painter';
+import { PrefetchScheduler } from './utils/prefetch';
+import { isAbortError } from './utils/abort';
+import { MAX_ARCHIVE_HOURS } from './utils/radar-archive';
+import { PROJECTION_ACCURACIES, ProjectionAccuracy } from './utils/projection';
+import { PointIntensity, queryBand } from './utils/point-query';
+import { currentFrameIndex, nextRainSpell, peakIntensity, RainOutlook, rainOutlook } from './utils/rain-outlook';
 import { SWISS_BOUNDARY_GEOJSON } from './utils/switzerland-boundary';
 
 
@@ -30,46 +48,45 @@ if (!customElements.get('meteoswiss-radar-card')) {
     });
 }
 
-// MeteoSwiss publishes a new radar frame every 5 minutes. Poll slightly more
-// often so a permanently open dashboard cannot phase-lock a full frame behind.
-const REFRESH_INTERVAL_MS = 4 * 60 * 1000;
-
 // Which frame the card shows on load, and which it falls back to when the frame
 // it was showing drops out of the animation window during a refresh.
 const DEFAULT_TIME_MODES = ['latest', 'now'] as const;
 type DefaultTimeMode = (typeof DEFAULT_TIME_MODES)[number];
 
-// Frame JSON is immutable per timestamp, so a frame only ever needs fetching
-// once. Without this the 1 fps loop re-fetches the whole window on every pass
-// (~1 request/second, forever) which is what rate limits the CORS proxy.
-// Frames average ~17 KB, so the cap below is a few MB of headroom over a full
-// animation window.
-const FRAME_CACHE_LIMIT = 400;
-
-// MeteoSwiss serves the two halves of the animation with different palettes:
-// the INCA forecast frames already use the official colours published in
-// animation.json's `legend` block (the ones the MeteoSwiss app shows), while
-// the observed radar (RZC) frames use a slightly washed out variant. Snapping
-// the observed colours onto the legend makes the whole animation consistent
-// with the app.
-//
-// Keyed on colour rather than on the shapes' `l` field: `l` is an index into
-// each frame's own area list, not a global band, so the same colour turns up
-// under different levels from frame to frame.
-//
-// Anything absent from this table is passed through untouched - that covers the
-// non-precipitation overlays (#333e48, #ffffff) and the >60 mm/h band (#ac00db),
-// for which MeteoSwiss publishes no legend entry.
-const OFFICIAL_COLORS: Record<string, string> = {
-    '#9e849a': '#9A7E95', //  0-1  mm/h
-    '#2a00fa': '#0001FC', //  1-2  mm/h
-    '#2a933b': '#058C2D', //  2-4  mm/h
-    '#49ff36': '#05FF05', //  4-6  mm/h
-    '#fcff2d': '#FEFF01', //  6-10 mm/h
-    '#faca1e': '#FFC703', // 10-20 mm/h
-    '#f87c00': '#FF7D01', // 20-40 mm/h
-    '#f70c00': '#FF1900', // 40-60 mm/h
-};
+// Frames fetched in parallel ahead of playback. Low enough not to trip the
+// shared proxy's rate limit, high enough to fill the window within a loop.
+const DEFAULT_PREFETCH_CONCURRENCY = 2;
+
+// A crossfade longer than one playback tick would never finish before the
+// next frame replaced it.
+const MAX_CROSSFADE_MS = 1000;
+
+// RFC 7230 token characters.
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+// Options that only change how a card looks or behaves, not where its data
+// comes from.
+// Everything else identifies the data source, so cards that agree on it share
+// one frame store (see getFrameStore).
+const DISPLAY_ONLY_KEYS = [
+    'type',
+    'card_title',
+    'zoom_level',
+    'center_latitude',
+    'center_longitude',
+    'default_time',
+    'locale',
+    'time_format',
+    'debug',
+    'show_legend',
+    'show_rain_outlook',
+    'show_rain_chart',
+    'prefetch_concurrency',
+    'archive_hours',
+    'projection_accuracy',
+    'renderer',
+    'crossfade_ms',
+];
 
 // Card override for the clock. Home Assistant's own setting additionally has
 // 'language' and 'system', which are only meaningful as a default, not as an
@@ -96,6 +113,7 @@ interface HomeAssistant {
         latitude: number;
         longitude: number;
     };
+    auth?: HomeAssistantAuth;
 }
 
 interface LovelaceCardConfig {
@@ -105,9 +123,23 @@ interface LovelaceCardConfig {
     center_latitude?: number;
     center_longitude?: number;
     default_time?: DefaultTimeMode;
-    proxy_url?: string;
+    proxy_url?: string | string[];
+    proxy_mode?: ProxyMode;
+    ha_proxy_path?: string;
+    proxy_headers?: Record<string, string>;
+    proxy_token?: string;
     locale?: string;
     time_format?: TimeFormat;
+    data_source?: string;
+    debug?: boolean;
+    show_legend?: boolean;
+    show_rain_outlook?: boolean;
+    show_rain_chart?: boolean;
+    prefetch_concurrency?: number;
+    archive_hours?: number;
+    projection_accuracy?: ProjectionAccuracy;
+    renderer?: RadarRenderer;
+    crossfade_ms?: number;
 }
 
 @customElement('meteoswiss-radar-card')
@@ -121,16 +153,30 @@ export class MeteoSwissRadarCard extends LitElement {
     @state() private _frames: MeteoSwissRadarFrame[] = []; // Animation frames from animation.json
     @state() private _isDefaultView: boolean = true;
     @state() private _isReloading: boolean = false;
-
-    private _api = new MeteoSwissAPI();
+    @state() private _retryState?: RetryState;
+    @state() private _formatError?: RadarFormatError;
+    // Replaying archived observed frames instead of the live window.
+    @state() private _archiveMode: boolean = false;
+    // Rain starting or ending at the card's centre, from the live window.
+    @state() private _rainOutlook?: RainOutlook;
+    // The centre's intensity per frame on the slider; holes for frames not
+    // decoded yet.
+    @state() private _centerTimeline: Array<PointIntensity | undefined> = [];
+
+    private _store?: RadarFrameStore;
+    private _unsubscribeStore?: () => void;
     private _mapContainer?: HTMLElement;
-    private _canvasLayer?: L.Layer;
+    private _radarLayer?: RadarLayer;
     private _centerMarker?: L.Marker;
     private _animationInterval?: number;
-    private _refreshInterval?: number;
     private _mapInitializing = false;
     private _renderToken = 0;
-    private _frameCache = new Map<string, MeteoSwissRadarJSON>();
+    private _timelineToken = 0;
+    private _popupToken = 0;
+    // The centre the timeline was last worked out for, as "lat,lng".
+    private _timelineCenter?: string;
+    // Each frame's position in _frames by timestamp, rebuilt with _frames.
+    private _frameIndexByTimestamp = new Map<number, number>();
 
     static styles = styles;
 
@@ -149,7 +195,6 @@ export class MeteoSwissRadarCard extends LitElement {
     }
 
     setConfig(config: LovelaceCardConfig): void {
-        console.log('setConfig called', config);
         if (!config) {
             throw new Error('Invalid configuration');
         }
@@ -163,6 +208,66 @@ export class MeteoSwissRadarCard extends LitElement {
                 `Invalid time_format "${config.time_format}". Expected one of: ${TIME_FORMATS.join(', ')}.`
             );
         }
+        if (config.proxy_url !== undefined) {
+            const proxies = Array.isArray(config.proxy_url) ? config.proxy_url : [config.proxy_url];
+            if (!proxies.every(proxy => typeof proxy === 'string')) {
+                throw new Error('Invalid proxy_url. Expected a proxy URL or a list of proxy URLs.');
+            }
+        }
+        if (config.proxy_mode !== undefined && !PROXY_MODES.includes(config.proxy_mode)) {
+            throw new Error(
+                `Invalid proxy_mode "${config.proxy_mode}". Expected one of: ${PROXY_MODES.join(', ')}.`
+            );
+        }
+        if (config.projection_accuracy !== undefined && !PROJECTION_ACCURACIES.includes(config.projection_accuracy)) {
+            throw new Error(
+                `Invalid projection_accuracy "${config.projection_accuracy}". Expected one of: ${PROJECTION_ACCURACIES.join(', ')}.`
+            );
+        }
+        if (config.renderer !== undefined && !RADAR_RENDERERS.includes(config.renderer)) {
+            throw new Error(
+                `Invalid renderer "${config.renderer}". Expected one of: ${RADAR_RENDERERS.join(', ')}.`
+            );
+        }
+        if (config.ha_proxy_path !== undefined && !String(config.ha_proxy_path).startsWith('/')) {
+            throw new Error(`Invalid ha_proxy_path "${config.ha_proxy_path}". Expected a path such as /api/meteoswiss.`);
+        }
+        if (config.proxy_headers !== undefined) {
+            if (typeof config.proxy_headers !== 'object' || config.proxy_headers === null || Array.isArray(config.proxy_headers)) {
+                throw new Error('Invalid proxy_headers. Expected a mapping of header names to values.');
+            }
+            for (const [name, value] of Object.entries(config.proxy_headers)) {
+                // fetch() would throw on these at request time instead.
+                if (!HEADER_NAME.test(name) || typeof value !== 'string') {
+                    throw new Error(`Invalid proxy_headers entry "${name}". Header values must be strings.`);
+                }
+            }
+        }
+        if (config.proxy_token !== undefined && typeof config.proxy_token !== 'string') {
+            throw new Error('Invalid proxy_token. Expected a string.');
+        }
+        if (config.prefetch_concurrency !== undefined
+            && !(Number.isInteger(config.prefetch_concurrency) && config.prefetch_concurrency >= 0)) {
+            throw new Error(
+                `Invalid prefetch_concurrency "${config.prefetch_concurrency}". Expected 0 (off) or a positive whole number.`
+            );
+        }
+        if (config.crossfade_ms !== undefined
+            && !(Number.isInteger(config.crossfade_ms)
+                && config.crossfade_ms >= 0
+                && config.crossfade_ms <= MAX_CROSSFADE_MS)) {
+            throw new Error(
+                `Invalid crossfade_ms "${config.crossfade_ms}". Expected 0 (off) to ${MAX_CROSSFADE_MS}.`
+            );
+        }
+        if (config.archive_hours !== undefined
+            && !(Number.isInteger(config.archive_hours)
+                && config.archive_hours >= 0
+                && config.archive_hours <= MAX_ARCHIVE_HOURS)) {
+            throw new Error(
+                `Invalid archive_hours "${config.archive_hours}". Expected 0 (off) to ${MAX_ARCHIVE_HOURS}.`
+            );
+        }
         if (config.locale !== undefined) {
             // Catch a bad tag here rather than letting Intl throw mid-render.
             try {
@@ -174,9 +279,16 @@ export class MeteoSwissRadarCard extends LitElement {
         this._config = {
             zoom_level: 12,
             default_time: 'latest',
+            data_source: DEFAULT_DATA_SOURCE,
             ...config
         };
-        this._api.setProxyUrl(this._config.proxy_url);
+        // Resolve the store now so an unknown data_source fails the config
+        // instead of surfacing later as a load error.
+        this._leaveStore();
+        this._store = this._acquireStore();
+        this._prefetcher.concurrency = this._config.prefetch_concurrency ?? DEFAULT_PREFETCH_CONCURRENCY;
+        this._radarLayer?.setRenderer(this._config.renderer ?? 'canvas');
+        this._radarLayer?.setCrossfade(this._config.crossfade_ms ?? 0);
 
         // Trigger data load
         this._loadData().catch(e => {
@@ -209,7 +321,8 @@ export class MeteoSwissRadarCard extends LitElement {
 
         if (this._frames.length) {
             this._startAnimation();
-            this._startAutoRefresh();
+            this._joinStore();
+            this._prefetch();
         }
     }
 
@@ -220,22 +333,36 @@ export class MeteoSwissRadarCard extends LitElement {
         this._stopTimers();
         this._map?.remove();
         this._map = undefined;
-        this._canvasLayer = undefined;
+        this._radarLayer = undefined;
         this._centerMarker = undefined;
     }
 
+    protected willUpdate(changedProperties: PropertyValues): void {
+        super.willUpdate(changedProperties);
+        if (changedProperties.has('_frames')) {
+            this._frameIndexByTimestamp = new Map(this._frames.map((frame, index) => [frame.timestamp, index]));
+        }
+    }
+
     protected updated(changedProperties: PropertyValues): void {
         super.updated(changedProperties);
         // Only reset view on config change OR if we are in default view and HA provides a new location (init)
+        if (changedProperties.has('hass')) {
+            this._store?.source.setHomeAssistantAuth?.(this.hass?.auth);
+        }
+
         if ((changedProperties.has('_config') || changedProperties.has('hass')) && this._map) {
             // The pointer tracks the chosen coordinates whether or not the user
             // has panned away from them.
             this._updateCenterMarker();
+            if (this._frames.length && this._timelineCenter !== this._getCenter().join(',')) {
+                this._updateCenterTimeline();
+            }
 
             // Re-stamp the label so a locale/clock change in the editor shows up
             // immediately instead of at the next animation tick.
             if (changedProperties.has('_config') && this._frames[this._currentFrameIndex]) {
-                this._timeLabel = this._formatTime(this._frames[this._currentFrameIndex].timestamp);
+                this._timeLabel = this._formatFrame(this._frames[this._currentFrameIndex]);
             }
 
             if (this._isDefaultView) {
@@ -310,6 +437,7 @@ export class MeteoSwissRadarCard extends LitElement {
 
         // Track View State
         this._map.on('moveend zoomend', () => this._checkView());
+        this._map.on('click', (e: L.LeafletMouseEvent) => this._openPointPopup(e.latlng));
 
         // 2. Base Layer
         L.tileLayer('https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png', {
@@ -345,7 +473,12 @@ export class MeteoSwissRadarCard extends LitElement {
             interactive: false // Click-through
         }).addTo(this._map);
 
-        // 4. Mark the configured location (config override, else the Home
+        // 4. Radar, repainted in place on every frame change
+        this._radarLayer = new RadarLayer(this._config.renderer ?? 'canvas')
+            .setCrossfade(this._config.crossfade_ms ?? 0)
+            .addTo(this._map);
+
+        // 5. Mark the configured location (config override, else the Home
         // Assistant zone, else the Swiss centre)
         this._updateCenterMarker();
 
@@ -397,25 +530,51 @@ export class MeteoSwissRadarCard extends LitElement {
         return [46.8182, 8.2275];
     }
 
-    private async _fetchFrames(): Promise<MeteoSwissRadarFrame[]> {
-        const versions = await this._api.getVersions();
-
-        const accum = versions['precipitation/animation']; // Timestamp
-        if (!accum) throw new Error('No animation timestamp found');
+    private _acquireStore(): RadarFrameStore {
+        const sourceConfig = Object.fromEntries(
+            Object.entries(this._config).filter(([key]) => !DISPLAY_ONLY_KEYS.includes(key))
+        );
+        const store = getFrameStore(
+            JSON.stringify(sourceConfig),
+            () => createRadarDataSource(this._config.data_source!, { ...this._config }),
+            this._config.data_source
+        );
+        store.source.setHomeAssistantAuth?.(this.hass?.auth);
+        store.enableArchive(this._config.archive_hours ?? 0);
+        return store;
+    }
 
-        const animationData = await this._api.getAnimationData(accum);
+    // Subscribing is what keeps the shared refresh timer running, so a card
+    // only stays subscribed while it is connected and animating.
+    private _joinStore(): void {
+        if (this._unsubscribeStore) return;
+
+        // Re-acquire rather than reuse: a store left without subscribers for
+        // long enough is dropped from the registry, and a card holding on to
+        // it would stop sharing with newly created cards.
+        this._store = this._acquireStore();
+        this._unsubscribeStore = this._store.subscribe({
+            onFrames: frames => this._onFramesRefreshed(frames),
+            onRetry: state => {
+                this._retryState = state;
+            },
+        });
+    }
 
-        // map_images is an array of day objects: [{ day: '...', pictures: [...] }, ...]
-        return animationData.map_images
-            .reduce<MeteoSwissRadarFrame[]>((acc, dayGroup) => acc.concat(dayGroup.pictures || []), [])
-            .filter(frame => Boolean(frame.radar_url))
-            .sort((a, b) => a.timestamp - b.timestamp);
+    private _leaveStore(): void {
+        this._unsubscribeStore?.();
+        this._unsubscribeStore = undefined;
+        this._retryState = undefined;
     }
 
-    private async _loadData(): Promise<void> {
+    // `force` skips the frame list another card may have just loaded, for the
+    // reload button.
+    private async _loadData(force = false): Promise<void> {
         try {
             this._timeLabel = 'Fetching radar data...';
-            const frames = await this._fetchFrames();
+            this._archiveMode = false;
+            this._joinStore();
+            const frames = await (force ? this._store!.refresh() : this._store!.load());
 
             if (!frames.length) {
                 this._timeLabel = 'No radar data available';
@@ -423,56 +582,86 @@ export class MeteoSwissRadarCard extends LitElement {
             }
 
             this._frames = frames;
-            this._pruneFrameCache(frames);
             this._currentFrameIndex = this._pickFrameIndex(frames);
             await this._renderFrame(this._currentFrameIndex);
             this._startAnimation();
-            this._startAutoRefresh();
+            this._prefetch();
+            this._updateCenterTimeline();
         } catch (e) {
             const message = e instanceof Error ? e.message : String(e);
             console.error('Err loading data', e);
             this._timeLabel = `Error: ${message}`;
+            if (e instanceof RadarFormatError) this._formatError = e;
         }
     }
 
-    private _startAutoRefresh(): void {
-        if (this._refreshInterval) clearInterval(this._refreshInterval);
+    // The shared store refreshed the frame list (on its timer, or because some
+    // card hit reload).
+    private _onFramesRefreshed(frames: MeteoSwissRadarFrame[]): void {
+        // Still in _loadData(), which picks the start frame itself.
+        if (!this._frames.length) return;
+        // The archive timeline stays put; leaving archive mode picks up the
+        // latest window.
+        if (this._archiveMode) return;
+
+        const currentTimestamp = this._frames[this._currentFrameIndex]?.timestamp;
+        this._frames = frames;
+        // Only now: the timeline and outlook are worked out from _frames.
+        this._updateCenterTimeline();
+
+        // Keep the viewer on the same moment in time rather than the same
+        // array index: the window slides forward, so indices shift under us.
+        const preservedIndex = currentTimestamp === undefined
+            ? -1
+            : frames.findIndex(frame => frame.timestamp === currentTimestamp);
+
+        if (preservedIndex >= 0) {
+            // Same frame is still on screen and still valid - leave it alone.
+            this._currentFrameIndex = preservedIndex;
+            this._prefetch();
+            return;
+        }
 
-        this._refreshInterval = window.setInterval(() => {
-            this._refreshData();
-        }, REFRESH_INTERVAL_MS);
+        this._currentFrameIndex = this._pickFrameIndex(frames);
+        this._renderFrame(this._currentFrameIndex);
+        this._prefetch();
     }
 
-    // Pull a fresh frame list periodically. Without this a dashboard left open
-    // keeps looping the window captured when the card was created, so its
-    // "forecast" quietly ages into the past.
-    private async _refreshData(): Promise<void> {
-        try {
-            const frames = await this._fetchFrames();
-            if (!frames.length) return;
+    private async _toggleArchive(): Promise<void> {
+        if (this._archiveMode) {
+            this._stopTimers();
+            this._isPlaying = true;
+            await this._loadData();
+            return;
+        }
+        if (!this._store) return;
 
-            const currentTimestamp = this._frames[this._currentFrameIndex]?.timestamp;
-            this._frames = frames;
-            this._pruneFrameCache(frames);
+        const frames = await this._store.listArchivedFrames(this._config.archive_hours ?? 0);
+        if (!frames.length) {
+            this._timeLabel = 'No archived radar yet';
+            return;
+        }
 
-            // Keep the viewer on the same moment in time rather than the same
-            // array index: the window slides forward, so indices shift under us.
-            const preservedIndex = currentTimestamp === undefined
-                ? -1
-                : frames.findIndex(frame => frame.timestamp === currentTimestamp);
+        // Paused on the newest frame: replaying a day from the end is rarely
+        // what is wanted, picking a moment with the date field usually is.
+        this._archiveMode = true;
+        this._isPlaying = false;
+        this._frames = frames;
+        this._currentFrameIndex = frames.length - 1;
+        this._renderFrame(this._currentFrameIndex);
+        this._prefetch();
+        this._updateCenterTimeline();
+    }
 
-            if (preservedIndex >= 0) {
-                // Same frame is still on screen and still valid - leave it alone.
-                this._currentFrameIndex = preservedIndex;
-                return;
-            }
+    private _onArchiveDateChange(e: Event): void {
+        const value = (e.target as HTMLInputElement).value;
+        if (!value || !this._frames.length) return;
 
-            this._currentFrameIndex = this._pickFrameIndex(frames);
-            await this._renderFrame(this._currentFrameIndex);
-        } catch (e) {
-            // Keep showing the frames we already have; the next tick can recover.
-            console.error('Radar refresh failed', e);
-        }
+        // datetime-local values carry no zone; Date parses them as local time.
+        this._isPlaying = false;
+        this._currentFrameIndex = this._findClosestFrameIndex(this._frames, new Date(value).getTime() / 1000);
+        this._renderFrame(this._currentFrameIndex);
+        this._prefetch();
     }
 
     private _pickFrameIndex(frames: MeteoSwissRadarFrame[]): number {
@@ -498,7 +687,9 @@ export class MeteoSwissRadarCard extends LitElement {
         return closestIndex;
     }
 
-    private async _renderFrame(index: number) {
+    // `signal` lets the slider cancel the fetch once it has been dragged past
+    // this frame; playback never aborts, so a slow frame still arrives.
+    private async _renderFrame(index: number, signal?: AbortSignal) {
         if (!this._frames[index]) return;
         const frame = this._frames[index];
 
@@ -507,117 +698,50 @@ export class MeteoSwissRadarCard extends LitElement {
         const token = ++this._renderToken;
 
         // Update Time Label
-        this._timeLabel = this._formatTime(frame.timestamp);
+        this._timeLabel = this._formatFrame(frame);
 
-        const cached = this._frameCache.get(frame.radar_url);
+        if (!this._store) return;
+
+        // Seen before: only the drawing is left to do.
+        const cached = this._store.getDecodedFrame(frame, this._accuracy);
         if (cached) {
             this._drawRadarData(cached);
             return;
         }
 
         // Fetch specific Radar JSON for this frame
-        // URL in animation.json is relative: /product/output/radar/rzc/radar_rzc.2025...json
         try {
-            const resp = await this._api.fetchRadarFrame(frame.radar_url);
-            if (!resp.ok) throw new Error(`Fetch failed: ${resp.status}`);
-            const data: MeteoSwissRadarJSON = await resp.json();
-
-            this._cacheFrame(frame.radar_url, data);
-
+            const decoded = await this._store.decodeFrame(frame, this._accuracy, signal);
             if (token !== this._renderToken) return;
-            this._drawRadarData(data);
+            this._drawRadarData(decoded);
+            this._formatError = undefined;
         } catch (e) {
+            if (isAbortError(e)) return;
             console.error('Failed to load frame json', e);
+            if (e instanceof RadarFormatError) this._formatError = e;
         }
     }
 
-    private _cacheFrame(radarUrl: string, data: MeteoSwissRadarJSON): void {
-        this._frameCache.set(radarUrl, data);
-
-        // Map preserves insertion order, so the first key is the oldest entry.
-        while (this._frameCache.size > FRAME_CACHE_LIMIT) {
-            const oldest = this._frameCache.keys().next().value;
-            if (oldest === undefined) break;
-            this._frameCache.delete(oldest);
-        }
+    private get _accuracy(): ProjectionAccuracy {
+        return this._config?.projection_accuracy ?? 'approximate';
     }
 
-    // Frames that have slid out of the animation window will never be requested
-    // again, so drop them rather than waiting for the size cap to evict them.
-    private _pruneFrameCache(frames: MeteoSwissRadarFrame[]): void {
-        const live = new Set(frames.map(frame => frame.radar_url));
+    private _drawRadarData(frame: DecodedFrame) {
+        if (!this._map || !this._store) return;
 
-        for (const url of this._frameCache.keys()) {
-            if (!live.has(url)) {
-                this._frameCache.delete(url);
-            }
-        }
+        this._radarLayer?.setFrame(frame, this._store.source.describePalette());
     }
 
-    private _drawRadarData(data: MeteoSwissRadarJSON) {
-        if (!this._map) return;
-
-        // Remove old layer
-        if (this._canvasLayer) {
-            this._map.removeLayer(this._canvasLayer);
-        }
-
-        // Create Custom Canvas Layer (or GeoJSON as implemented)
-        // @ts-ignore
-        L.GridLayer.Canvas = L.GridLayer.extend({
-            createTile: function (coords: any) {
-                const tile = document.createElement('canvas');
-                const size = this.getTileSize();
-                tile.width = size.x;
-                tile.height = size.y;
-
-                const ctx = tile.getContext('2d');
-                if (!ctx) return tile;
-                return tile;
-            }
-        });
-
-        const features: any[] = [];
-
-        data.areas.forEach(area => {
-            const rawColor = `#${area.color}`;
-            const color = OFFICIAL_COLORS[rawColor.toLowerCase()] ?? rawColor;
-            area.shapes.forEach(shape => {
-                const latLngs = decodeShape(shape[0], data.coords);
-                // The decoder returns [lat, lng]. GeoJSON expects [lng, lat].
-                const coordinates = latLngs.map(pt => [pt[1], pt[0]]);
-
-                features.push({
-                    type: "Feature",
-                    properties: { color: color },
-                    geometry: {
-                        type: "Polygon",
-                        coordinates: [coordinates]
-                    }
-                });
-            });
-        });
-
-        const geoJsonLayer = L.geoJSON({
-            type: "FeatureCollection",
-            features: features
-        } as any, {
-            style: (feature) => ({
-                fillColor: feature?.properties.color,
-                weight: 0,
-                fillOpacity: 0.7,
-                color: 'transparent' // No border
-            })
-        });
-
-        this._canvasLayer = geoJsonLayer;
-        this._canvasLayer.addTo(this._map);
+    private _prefetch(): void {
+        this._prefetcher.schedule(this._frames, this._currentFrameIndex);
     }
 
     private _startAnimation() {
         if (this._animationInterval) clearInterval(this._animationInterval);
 
         this._animationInterval = window.setInterval(() => {
+            // Paused, nothing else re-renders the retry countdown.
+            if (this._retryState) this.requestUpdate();
             if (!this._isPlaying) return;
             if (!this._frames.length) return;
 
@@ -631,10 +755,8 @@ export class MeteoSwissRadarCard extends LitElement {
             clearInterval(this._animationInterval);
             this._animationInterval = undefined;
         }
-        if (this._refreshInterval) {
-            clearInterval(this._refreshInterval);
-            this._refreshInterval = undefined;
-        }
+        this._leaveStore();
+        this._prefetcher.cancel();
     }
 
     private _togglePlay() {
@@ -650,10 +772,11 @@ export class MeteoSwissRadarCard extends LitElement {
 
         this._isReloading = true;
         this._stopTimers();
+        this._archiveMode = false;
         this._isPlaying = true;
 
         try {
-            await this._loadData(); // re-fetches, re-picks the frame, restarts both timers
+            await this._loadData(true); // re-fetches, re-picks the frame, restarts the timers
         } finally {
             this._isReloading = false;
 
@@ -662,22 +785,41 @@ export class MeteoSwissRadarCard extends LitElement {
             // leaving the card frozen.
             if (this._frames.length && !this._animationInterval) {
                 this._startAnimation();
-                this._startAutoRefresh();
+                this._joinStore();
             }
         }
     }
 
     private _throttledRenderFrame: (index: number) => void;
+    private _scrubAbort?: AbortController;
+    private _prefetcher: PrefetchScheduler;
 
     constructor() {
         super();
+        this._prefetcher = new PrefetchScheduler(
+            frame => this._store ? this._store.decodeFrame(frame, this._accuracy) : Promise.resolve(),
+            frame => Boolean(this._store?.hasDecodedFrame(frame, this._accuracy)),
+            // Redraws the buffered indicator on the slider.
+            () => this.requestUpdate(),
+            DEFAULT_PREFETCH_CONCURRENCY
+        );
         // Initialize throttled function (250ms limit)
         this._throttledRenderFrame = throttle((index: number) => {
-            this._renderFrame(index);
+            // Fast scrubbing would otherwise queue a proxy request for every
+            // frame passed over.
+            this._scrubAbort?.abort();
+            this._scrubAbort = new AbortController();
+            this._renderFrame(index, this._scrubAbort.signal);
         }, 250);
     }
 
-    private _formatTime(timestamp: number): string {
+    private _formatFrame(frame: MeteoSwissRadarFrame): string {
+        const kind = frame.kind === 'forecast' ? 'Forecast' : 'Observed';
+        return `${kind} · ${this._formatTime(frame.timestamp)}`;
+    }
+
+    // `timeOnly` drops the date, for times that are obviously today.
+    private _formatTime(timestamp: number, timeOnly = false): string {
         const date = new Date(timestamp * 1000);
 
         // `hass.language` alone resolves "en" to en-US, which is why an English
@@ -690,7 +832,10 @@ export class MeteoSwissRadarCard extends LitElement {
         // Keep minute: 'numeric'. Pairing a 'numeric' hour with a '2-digit'
         // minute makes Intl drop the hour padding in the CH locales (03:35
         // becomes 3:35), which is the opposite of what it looks like it does.
-        const options: Intl.DateTimeFormatOptions = {
+        const options: Intl.DateTimeFormatOptions = timeOnly ? {
+            hour: 'numeric',
+            minute: 'numeric'
+        } : {
             weekday: 'long',
             year: 'numeric',
             month: 'numeric',
@@ -730,6 +875,213 @@ export class MeteoSwissRadarCard extends LitElement {
         return resolved.hourCycle === 'h11' || resolved.hourCycle === 'h12';
     }
 
+    // What the data source is doing under the hood (which proxy served the last
+    // request, ...). Rendered under the controls with `debug: true`, and public
+    // so it can be read from the browser console on any card.
+    public getDebugInfo(): Record<string, string> {
+        if (!this._store) return {};
+        return {
+            ...this._store.source.getDebugInfo?.(),
+            cards: String(this._store.subscriberCount),
+            decoder: frameDecoder.usesWorker ? 'worker' : 'main thread',
+            renderer: this._radarLayer?.activeRenderer ?? 'none',
+            cache: `${this._store.cacheInfo.frames} frames, ${(this._store.cacheInfo.bytes / 1048576).toFixed(1)} MB`,
+        };
+    }
+
+    // How hard it is raining at a location in one frame of the animation,
+    // the frame on screen by default. Public so other cards, scripts and the
+    // browser console can ask; resolves to undefined while no such frame is
+    // loaded.
+    public async queryIntensity(
+        lat: number,
+        lng: number,
+        frameIndex: number = this._currentFrameIndex,
+    ): Promise<PointIntensity | undefined> {
+        const frame = this._frames[frameIndex];
+        if (!frame || !this._store) return undefined;
+
+        return this._queryFrame(frame, lat, lng);
+    }
+
+    private async _queryFrame(
+        frame: MeteoSwissRadarFrame,
+        lat: number,
+        lng: number,
+        signal?: AbortSignal,
+    ): Promise<PointIntensity> {
+        const store = this._store!;
+        const decoded = await store.decodeFrame(frame, this._accuracy, signal);
+        return {
+            timestamp: frame.timestamp,
+            kind: frame.kind,
+            band: queryBand(decoded, store.source.describePalette(), lat, lng),
+        };
+    }
+
+    // The rain at a clicked spot across every frame on the slider: a small
+    // chart, the peak and when the next rain starts and stops. Opens at once
+    // and fills in when the frames are decoded (usually already cached).
+    // Frames that fail are left out; closing the popup cancels the rest.
+    private async _openPointPopup(latlng: L.LatLng): Promise<void> {
+        if (!this._map || !this._store || !this._frames.length) return;
+
+        const token = ++this._popupToken;
+        const abort = new AbortController();
+        const frames = this._frames;
+        const content = document.createElement('div');
+        content.className = 'point-popup';
+        render(html`Loading…`, content);
+
+        const popup = L.popup({ maxWidth: 260 })
+            .setLatLng(latlng)
+            .setContent(content)
+            .openOn(this._map);
+        // Opening the next popup closes this one first, so only bump the
+        // token if no newer popup has taken it already.
+        popup.on('remove', () => {
+            if (token === this._popupToken) this._popupToken++;
+            abort.abort();
+        });
+
+        const timeline: PointIntensity[] = [];
+        for (const frame of frames) {
+            try {
+                timeline.push(await this._queryFrame(frame, latlng.lat, latlng.lng, abort.signal));
+            } catch (e) {
+                if (isAbortError(e)) return;
+                console.debug('Point timeline: frame unavailable', frame.radar_url, e);
+            }
+            if (token !== this._popupToken) return;
+        }
+
+        if (timeline.length) {
+            render(this._renderPointPopup(timeline), content);
+        } else {
+            render(html`Radar unavailable for this spot.`, content);
+        }
+        popup.update();
+    }
+
+    private _renderPointPopup(timeline: PointIntensity[]) {
+        const bands = this._store?.source.describePalette().bands ?? [];
+        const peak = peakIntensity(timeline, bands);
+        const now = Date.now() / 1000;
+        // The archive is all history: "next" rain means nothing there.
+        const spell = this._archiveMode ? undefined : nextRainSpell(timeline, now);
+        const last = timeline[timeline.length - 1];
+        const until = (end: number | undefined) => end === undefined
+            ? `past ${this._formatTime(last.timestamp, true)}`
+            : `until about ${this._formatTime(end, true)}`;
+
+        let spellText = '';
+        if (spell?.ongoing) {
+            spellText = `Raining now, ${until(spell.end)}`;
+        } else if (spell) {
+            spellText = `Rain from ${this._formatTime(spell.start, true)} (in ${this._formatDuration(spell.start)}), ${until(spell.end)}`;
+        } else if (!this._archiveMode) {
+            spellText = `No rain expected through ${this._formatTime(last.timestamp, true)}`;
+        }
+
+        return html`
+            <div class="point-popup-chart">
+                ${timeline.map(point => html`
+                    <div
+                        class="point-popup-bar ${point.kind === 'forecast' ? 'forecast' : ''}"
+                        style="height: ${point.band ? (bands.indexOf(point.band) + 1) / bands.length * 100 : 0}%; background: ${point.band?.color ?? 'transparent'}"
+                        title="${this._formatTime(point.timestamp, true)}: ${point.band?.label ?? 'dry'}"
+                    ></div>
+                `)}
+            </div>
+            <div>
+                ${peak?.band
+                    ? html`Peak <strong>${peak.band.label}</strong> at ${this._formatTime(peak.timestamp, true)}${peak.kind === 'forecast' ? ' (forecast)' : ''}`
+                    : 'Dry in every frame'}
+            </div>
+            ${spellText ? html`<div>${spellText}</div>` : ''}
+        `;
+    }
+
+    // The centre's intensity in every frame on the slider, for the chart under
+    // it and the rain outlook. Frames are decoded one at a time, so this never
+    // adds a burst of requests on top of the prefetcher: first from the frame
+    // for now to the end of the forecast, which is all the outlook needs, then
+    // the observed frames before it.
+    private async _updateCenterTimeline(): Promise<void> {
+        const showChart = this._config?.show_rain_chart !== false;
+        const showOutlook = this._config?.show_rain_outlook !== false && !this._archiveMode;
+        const frames = this._frames;
+        const center = this._getCenter();
+        const token = ++this._timelineToken;
+
+        // Same spot: whatever is already known carries over to the new window.
+        const known = new Map<number, PointIntensity>();
+        if (this._timelineCenter === center.join(',')) {
+            this._centerTimeline.forEach(point => point && known.set(point.timestamp, point));
+        }
+        this._timelineCenter = center.join(',');
+
+        const timeline = frames.map(frame => known.get(frame.timestamp));
+        this._centerTimeline = showChart ? timeline : [];
+        this._rainOutlook = undefined;
+        if (!this._store || !frames.length || (!showChart && !showOutlook)) return;
+
+        const now = Date.now() / 1000;
+        const current = Math.max(0, currentFrameIndex(frames, now));
+        const ahead = frames.map((_, index) => index).slice(current);
+        const behind = frames.map((_, index) => index).slice(0, current);
+
+        try {
+            for (const index of showChart ? [...ahead, ...behind] : ahead) {
+                if (!timeline[index]) {
+                    const point = await this._queryFrame(frames[index], center[0], center[1]);
+                    if (token !== this._timelineToken) return;
+                    timeline[index] = point;
+                    if (showChart) this._centerTimeline = [...timeline];
+                }
+                if (showOutlook && index === frames.length - 1) {
+                    this._rainOutlook = rainOutlook(timeline.slice(current) as PointIntensity[], now);
+                }
+            }
+        } catch (e) {
+            // The map reports frame failures; the chart and outlook just stay
+            // incomplete.
+            console.debug('Rain timeline unavailable', e);
+        }
+    }
+
+    private _formatRainOutlook(outlook: RainOutlook): string {
+        switch (outlook.kind) {
+            case 'starting':
+                return `Rain expected at ${this._formatTime(outlook.at, true)} (in ${this._formatDuration(outlook.at)})`;
+            case 'ending':
+                return `Rain ending around ${this._formatTime(outlook.at, true)}`;
+            case 'continuing':
+                return `Rain continuing past ${this._formatTime(outlook.until, true)}`;
+            case 'dry':
+                return `No rain expected through ${this._formatTime(outlook.until, true)}`;
+        }
+    }
+
+    // "20 min", "1 h 5 min" from now; worked out at render time, so it counts
+    // down between refreshes.
+    private _formatDuration(timestamp: number): string {
+        const minutes = Math.max(1, Math.round((timestamp - Date.now() / 1000) / 60));
+        if (minutes < 60) return `${minutes} min`;
+        const rest = minutes % 60;
+        return rest ? `${Math.floor(minutes / 60)} h ${rest} min` : `${minutes / 60} h`;
+    }
+
+    // Shown in place of the time label while a request waits out a backoff, so
+    // a 429 on the shared proxy reads as a delay rather than a failure.
+    // Counts down on the animation timer's re-renders.
+    private _formatRetry(state: RetryState): string {
+        const seconds = Math.max(1, Math.ceil((state.retryAt - Date.now()) / 1000));
+        if (state.status === 429) return `Rate limited, retrying in ${seconds} s`;
+        if (state.status !== undefined) return `Server error (${state.status}), retrying in ${seconds} s`;
+        return `Network error, retrying in ${seconds} s`;
+    }
+
     private _onSliderInput(e: Event) {
         const input = e.target as HTMLInputElement;
         this._isPlaying = false; // Pause while dragging
@@ -738,7 +1090,7 @@ export class MeteoSwissRadarCard extends LitElement {
 
         // Immediate UI feedback (Time Update)
         if (this._frames[index]) {
-            this._timeLabel = this._formatTime(this._frames[index].timestamp);
+            this._timeLabel = this._formatFrame(this._frames[index]);
         }
 
         // Throttled Network Request
@@ -748,6 +1100,9 @@ export class MeteoSwissRadarCard extends LitElement {
     private _onSliderChange(e: Event) {
         // Optional: Resume playing if it was playing before?
         // For now, keep it paused to let user examine the frame.
+
+        // The user jumped; warm the frames that will play from here first.
+        this._prefetch();
     }
 
     private _checkView() {
@@ -789,10 +1144,23 @@ export class MeteoSwissRadarCard extends LitElement {
                     <path d="M10,20V14H14V20H19V12H22L12,3L2,12H5V20H10Z" />
                 </svg>
             </button>
+            ${this._config?.show_legend !== false ? this._renderLegend() : ''}
+            ${this._formatError ? html`
+                <div class="format-error" title=${this._formatError.message}>
+                    MeteoSwiss changed its data format, so radar cannot be shown.
+                    A card update is probably needed.
+                    <code>${this._formatError.payload}: ${this._formatError.path} ${this._formatError.problem}</code>
+                </div>
+            ` : ''}
           </div>
           
           <div class="controls">
-             <div class="time-label">${this._timeLabel}</div>
+             <div class="time-label">
+                ${this._retryState ? this._formatRetry(this._retryState) : this._timeLabel}
+             </div>
+             ${this._rainOutlook && !this._archiveMode && this._config?.show_rain_outlook !== false ? html`
+                <div class="rain-outlook">${this._formatRainOutlook(this._rainOutlook)}</div>
+             ` : ''}
              <div class="controls-row">
                  <button @click=${this._togglePlay} title="Play/Pause">
                     ${this._isPlaying ? '⏸' : '▶'}
@@ -807,22 +1175,187 @@ export class MeteoSwissRadarCard extends LitElement {
                         <path d="M17.65,6.35C16.2,4.9 14.21,4 12,4A8,8 0 0,0 4,12A8,8 0 0,0 12,20C15.73,20 18.84,17.45 19.73,14H17.65C16.83,16.33 14.61,18 12,18A6,6 0 0,1 6,12A6,6 0 0,1 12,6C13.66,6 15.14,6.69 16.22,7.78L13,11H20V4L17.65,6.35Z" />
                     </svg>
                  </button>
-                 <input 
-                    type="range" 
-                    .min=${0} 
-                    .max=${this._frames.length - 1} 
-                    .value=${this._currentFrameIndex}
-                    @input=${this._onSliderInput}
-                    @change=${this._onSliderChange}
-                 >
+                 ${this._config?.archive_hours ? html`
+                    <button
+                        class=${this._archiveMode ? 'active' : ''}
+                        @click=${this._toggleArchive}
+                        title=${this._archiveMode ? 'Back to live radar' : `Replay the last ${this._config.archive_hours} h`}
+                    >
+                        <svg viewBox="0 0 24 24">
+                            <path d="M13.5,8H12V13L16.28,15.54L17,14.33L13.5,12.25V8M13,3A9,9 0 0,0 4,12H1L4.96,16.03L9,12H6A7,7 0 0,1 13,5A7,7 0 0,1 20,12A7,7 0 0,1 13,19C11.07,19 9.32,18.21 8.06,16.94L6.64,18.36C8.27,20 10.5,21 13,21A9,9 0 0,0 22,12A9,9 0 0,0 13,3" />
+                        </svg>
+                    </button>
+                 ` : ''}
+                 <div class="timeline">
+                    <div class="timeline-slider">
+                       ${this._renderTimelineTrack()}
+                       <input 
+                          type="range" 
+                          .min=${0} 
+                          .max=${this._frames.length - 1} 
+                          .value=${this._currentFrameIndex}
+                          @input=${this._onSliderInput}
+                          @change=${this._onSliderChange}
+                       >
+                    </div>
+                    ${this._config?.show_rain_chart !== false ? this._renderRainChart() : ''}
+                 </div>
              </div>
+             ${this._archiveMode ? this._renderArchiveRow() : ''}
+             ${this._config?.debug ? this._renderDebugInfo() : ''}
           </div>
         </div>
       </ha-card>
         `;
     }
 
+    // Drawn underneath the range input: the frames already loaded, the
+    // forecast part of the window and a tick marking the current time.
+    private _renderTimelineTrack() {
+        const last = this._frames.length - 1;
+        if (last < 1) return '';
+
+        // The thumb never travels the full width of the input: its centre stops
+        // half a thumb (~8px) short of either end.
+        const position = (index: number) => `calc(8px + (100% - 16px) * ${index / last})`;
+
+        const forecastStart = this._frames.findIndex(frame => frame.kind === 'forecast');
+        const nowIndex = this._fractionalIndex(Date.now() / 1000);
+
+        // Runs of frames already in the cache, like a video player's buffered bar.
+        const buffered: Array<[number, number]> = [];
+        this._frames.forEach((frame, index) => {
+            if (!this._store?.hasDecodedFrame(frame, this._accuracy)) return;
+            const run = buffered[buffered.length - 1];
+            if (run && run[1] === index - 1) {
+                run[1] = index;
+            } else {
+                buffered.push([index, index]);
+            }
+        });
+
+        return html`
+            <div class="timeline-track">
+                ${buffered.map(([from, to]) => html`
+                    <div
+                        class="timeline-buffered"
+                        style="left: ${position(Math.max(0, from - 0.5))}; right: calc(100% - ${position(Math.min(last, to + 0.5))})"
+                    ></div>
+                `)}
+                ${forecastStart >= 0 ? html`
+                    <div
+                        class="timeline-forecast"
+                        style="left: ${position(Math.max(0, forecastStart - 0.5))}"
+                        title="Forecast"
+                    ></div>
+                ` : ''}
+                ${nowIndex !== undefined ? html`
+                    <div class="timeline-now" style="left: ${position(nowIndex)}" title="Now"></div>
+                ` : ''}
+            </div>
+        `;
+    }
+
+    // A bar per frame under the slider: how hard it rains at the card's centre,
+    // in the band's colour and taller for stronger bands, so the start and
+    // peak of the rain show at a glance. Lined up with the slider's thumb.
+    private _renderRainChart() {
+        const last = this._frames.length - 1;
+        const bands = this._store?.source.describePalette().bands ?? [];
+        if (last < 1 || !bands.length || !this._centerTimeline.length) return '';
+
+        // Placed by timestamp rather than by position in _centerTimeline, so a
+        // timeline still being rebuilt for a new window can never shift bars.
+        return html`
+            <div class="rain-chart">
+                ${this._centerTimeline.map(point => {
+                    if (!point?.band) return '';
+                    const index = this._frameIndexByTimestamp.get(point.timestamp);
+                    if (index === undefined) return '';
+                    const height = (bands.indexOf(point.band) + 1) / bands.length * 100;
+                    return html`
+                        <div
+                            class="rain-chart-bar ${index === this._currentFrameIndex ? 'current' : ''}"
+                            style="left: calc(8px + (100% - 16px) * ${(index - 0.5) / last}); width: calc((100% - 16px) / ${last}); height: ${height}%; background: ${point.band.color}"
+                            title="${this._formatTime(point.timestamp, true)}: ${point.band.label}"
+                        ></div>
+                    `;
+                })}
+            </div>
+        `;
+    }
+
+    // Where a moment falls on the slider, interpolating between the frames
+    // either side of it. undefined outside the window.
+    private _fractionalIndex(timestamp: number): number | undefined {
+        for (let i = 0; i < this._frames.length - 1; i++) {
+            const from = this._frames[i].timestamp;
+            const to = this._frames[i + 1].timestamp;
+            if (timestamp >= from && timestamp <= to) {
+                return i + (to > from ? (timestamp - from) / (to - from) : 0);
+            }
+        }
+        return undefined;
+    }
+
+    private _renderArchiveRow() {
+        const first = this._frames[0];
+        const current = this._frames[this._currentFrameIndex];
+        if (!first || !current) return '';
+
+        return html`
+            <div class="archive-row">
+                <label>
+                    Jump to
+                    <input
+                        type="datetime-local"
+                        .min=${toDateTimeLocal(first.timestamp)}
+                        .max=${toDateTimeLocal(this._frames[this._frames.length - 1].timestamp)}
+                        .value=${toDateTimeLocal(current.timestamp)}
+                        @change=${this._onArchiveDateChange}
+                    >
+                </label>
+                <span>${this._frames.length} archived frames</span>
+            </div>
+        `;
+    }
+
+    // Bands come from the data source's palette (animation.json's legend for
+    // MeteoSwiss), strongest on top like the MeteoSwiss app.
+    private _renderLegend() {
+        const palette = this._store?.source.describePalette();
+        if (!palette?.bands.length) return '';
+
+        return html`
+            <div class="map-legend">
+                ${[...palette.bands].reverse().map(band => html`
+                    <div class="legend-item">
+                        <span class="color-box" style="background: ${band.color}"></span>
+                        <span>${band.label}</span>
+                    </div>
+                `)}
+            </div>
+        `;
+    }
+
+    private _renderDebugInfo() {
+        const info = this.getDebugInfo();
+        return html`
+            <div class="debug-info">
+                ${Object.entries(info).map(([key, value]) => html`<span>${key}: ${value}</span>`)}
+            </div>
+        `;
+    }
+
     getCardSize(): number {
         return 5;
     }
 }
+
+// The value format of <input type="datetime-local">, in local time.
+function toDateTimeLocal(timestamp: number): string {
+    const date = new Date(timestamp * 1000);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+        + `T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
@@ -74,6 +74,29 @@ export const styles = css`
     fill: currentColor;
   }
 
+  .format-error {
+    position: absolute;
+    top: 12px;
+    left: 12px;
+    right: 60px;
+    z-index: 1000;
+    padding: 8px 12px;
+    border-radius: 4px;
+    background: rgba(255, 243, 224, 0.95);
+    border-left: 4px solid #f57c00;
+    box-shadow: 0 2px 5px rgba(0,0,0,0.2);
+    font-size: 13px;
+    color: #333;
+  }
+
+  .format-error code {
+    display: block;
+    margin-top: 4px;
+    font-size: 11px;
+    color: #777;
+    word-break: break-all;
+  }
+
   .controls {
     display: flex;
     flex-direction: column;
@@ -92,6 +115,14 @@ export const styles = css`
     padding-bottom: 4px;
   }
 
+  .rain-outlook {
+    text-align: center;
+    font-size: 12px;
+    color: #1976d2;
+    margin-top: -2px;
+    padding-bottom: 4px;
+  }
+
   .controls-row {
     display: flex;
     justify-content: space-between;
@@ -152,20 +183,140 @@ export const styles = css`
     }
   }
 
-  .controls input {
+  .timeline {
     flex-grow: 1;
     margin: 0 8px;
-    padding: 4px;
-    border: 1px solid #ccc;
-    border-radius: 4px;
+  }
+
+  .timeline-slider {
+    position: relative;
+  }
+
+  .controls input {
+    position: relative;
+    width: 100%;
+    margin: 0;
+    padding: 4px 0;
+    background: transparent;
     cursor: pointer;
   }
 
   .controls input:focus {
     outline: none;
-    border-color: #1976d2;
+  }
+
+  .rain-chart {
+    position: relative;
+    height: 18px;
+    overflow: hidden;
+  }
+
+  .rain-chart-bar {
+    position: absolute;
+    bottom: 0;
+    min-height: 3px;
+    opacity: 0.6;
+  }
+
+  .rain-chart-bar.current {
+    opacity: 1;
+  }
+
+  .point-popup {
+    font-size: 12px;
+    line-height: 1.5;
+    min-width: 180px;
+  }
+
+  .point-popup-chart {
+    display: flex;
+    align-items: flex-end;
+    gap: 1px;
+    height: 32px;
+    margin-bottom: 4px;
+    border-bottom: 1px solid #ccc;
+  }
+
+  .point-popup-bar {
+    flex: 1;
+  }
+
+  .point-popup-bar.forecast {
+    opacity: 0.6;
+  }
+
+  .archive-row {
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+    gap: 8px;
+    padding-top: 4px;
+    font-size: 12px;
+    color: #666;
+  }
+
+  .archive-row input {
+    width: auto;
+    margin-left: 4px;
+    padding: 2px 4px;
+    border: 1px solid #ccc;
+    border-radius: 4px;
+    font: inherit;
+    color: #333;
+  }
+
+  /* Sits behind the range input, so only the parts above and below the
+     browser's own (thin) track show through. */
+  .timeline-track {
+    position: absolute;
+    top: 50%;
+    left: 0;
+    right: 0;
+    height: 14px;
+    transform: translateY(-50%);
+    pointer-events: none;
+  }
+
+  .timeline-buffered {
+    position: absolute;
+    top: 4px;
+    bottom: 4px;
+    background: rgba(0, 0, 0, 0.12);
+  }
+
+  .timeline-forecast {
+    position: absolute;
+    top: 0;
+    bottom: 0;
+    right: 0;
+    border-radius: 0 4px 4px 0;
+    background: repeating-linear-gradient(
+      -45deg,
+      rgba(25, 118, 210, 0.18),
+      rgba(25, 118, 210, 0.18) 3px,
+      rgba(25, 118, 210, 0.08) 3px,
+      rgba(25, 118, 210, 0.08) 6px
+    );
+  }
+
+  .timeline-now {
+    position: absolute;
+    top: -3px;
+    bottom: -3px;
+    width: 2px;
+    margin-left: -1px;
+    background: #d32f2f;
   }
   
+  .debug-info {
+    display: flex;
+    flex-wrap: wrap;
+    gap: 4px 12px;
+    font-family: monospace;
+    font-size: 11px;
+    color: #777;
+  }
+
   .map-legend {
       position: absolute;
       bottom: 20px;
@@ -0,0 +1,6 @@
+// `worker:<path>` imports are bundled separately by the inline-worker plugin
+// in rollup.config.js and arrive as the worker script's source code.
+declare module 'worker:*' {
+    const source: string;
+    export default source;
+}
@@ -0,0 +1,30 @@
+// fetch() rejects with a DOMException named AbortError when its signal fires;
+// everything here that gives up on an abort rejects the same way, so callers
+// need only one check.
+export function abortError(): DOMException {
+    return new DOMException('The request was aborted', 'AbortError');
+}
+
+export function isAbortError(e: unknown): boolean {
+    return e instanceof DOMException && e.name === 'AbortError';
+}
+
+// setTimeout that gives up early (rejecting with AbortError) if `signal` fires.
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timeout);
+            reject(abortError());
+        };
+        const timeout = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
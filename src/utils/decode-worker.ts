@@ -0,0 +1,32 @@
+// Runs inside the decode worker (see frame-decoder.ts), so the chain-code
+// walk and the projection of every vertex stay off the main thread.
+import { decodedFrameBuffers, decodeFrame } from './decoder';
+import type { DecodeRequest, DecodeResponse } from './frame-decoder';
+
+// The DOM typings describe `self` as a Window; only this much of the worker
+// scope is used.
+interface DecodeWorkerScope {
+    onmessage: ((event: MessageEvent<DecodeRequest>) => void) | null;
+    postMessage(message: DecodeResponse, transfer?: Transferable[]): void;
+}
+
+const scope = self as unknown as DecodeWorkerScope;
+
+scope.onmessage = ({ data: { id, data, accuracy } }) => {
+    try {
+        const frame = decodeFrame(data, accuracy);
+        scope.postMessage({ id, frame }, decodedFrameBuffers(frame));
+    } catch (e) {
+        const error = e as Error & { payload?: string; path?: string; problem?: string };
+        scope.postMessage({
+            id,
+            error: {
+                name: error.name,
+                message: error.message,
+                payload: error.payload,
+                path: error.path,
+                problem: error.problem,
+            },
+        });
+    }
+};
@@ -1,8 +1,10 @@
+import { CHToWGS, parseSwissGrid, ProjectionAccuracy } from './projection';
+import { RadarFormatError } from './validate';
 
 // MeteoSwiss Radar Data Decoder
 // Based on reverse-engineered logic:
 // - d: Chain code string where charCode - 77 gives delta
-// - Coordinates are in Swiss LV95 (CH1903+) system
+// - Coordinates are in kilometres on the Swiss grid named by coords.system
 
 export interface RadarFrame {
     timestamp: number;
@@ -32,6 +34,7 @@ export interface MeteoSwissRadarJSON {
 }
 
 export interface GridConfig {
+    system: string;
     x_min: number;
     x_max: number;
     x_count: number;
@@ -40,76 +43,103 @@ export interface GridConfig {
     y_count: number;
 }
 
-// Convert CH1903+ / LV95 to WGS84 (Lat/Lng)
-// Source: Federal Office of Topography swisstopo
-// https://www.swisstopo.admin.ch/en/knowledge-facts/surveying-geodesy/reference-frames/transformations-position.html
-export function CHToWGS(y: number, x: number): [number, number] {
-    // Convert to civil system (Bern = 0 / 0)
-    // Input y (Easting) and x (Northing) are in meters
-    // y_aux = (E - 2600000) / 1000000
-    // x_aux = (N - 1200000) / 1000000
-    // Convert to civil system (Bern = 0 / 0)
-    // Input y (Easting) and x (Northing) are in meters
-    // Standard LV95: y ~ 2,600,000, x ~ 1,200,000
-    // Standard LV03: y ~ 600,000, x ~ 200,000
-    // The Input data seems to be LV03-like or shifted LV95 (e.g. y=200k-800k, x=-160k-480k)
-    // We strictly need LV95 inputs (2.6M) for this specific formula?
-    // Actually the formula below `(y - 2600000)` implies it expects LV95.
-
-    // Heuristic: If values are "small", add the LV95 offset.
-    // Bern LV95 is 2,600,000 / 1,200,000.
-    // If y < 2,000,000, assume it needs +2,000,000.
-    // If x < 1,000,000, assume it needs +1,000,000.
-
-    let y_eff = y;
-    let x_eff = x;
-
-    if (y_eff < 2000000) y_eff += 2000000;
-    if (x_eff < 1000000) x_eff += 1000000;
-
-    const y_aux = (y_eff - 2600000) / 1000000;
-    const x_aux = (x_eff - 1200000) / 1000000;
-
-    // Calculate Latitude (Phi)
-    let lat = 16.9023892 +
-        3.238272 * x_aux -
-        0.270978 * Math.pow(y_aux, 2) -
-        0.002528 * Math.pow(x_aux, 2) -
-        0.0447 * Math.pow(y_aux, 2) * x_aux -
-        0.0140 * Math.pow(x_aux, 3);
-
-    // Calculate Longitude (Lambda)
-    let lng = 2.6779094 +
-        4.728982 * y_aux +
-        0.791484 * y_aux * x_aux +
-        0.1306 * y_aux * Math.pow(x_aux, 2) -
-        0.0436 * Math.pow(y_aux, 3);
-
-    // Convert to 100/36 unit to degrees? No, the formula returns 10000 seconds unit?
-    // Let's use the standard approximation (meters to degrees) if that's safer, 
-    // or verifying the output unit.
-
-    // Standard approximation (Input: E, N in meters)
-    // https://github.com/valentin/ch1903-wgs84/blob/mist/js/ch1903_wgs84.js
-
-    // Re-implementing standard JS version to be safe:
-    // Re-implementing standard JS version to be safe:
-    let y_in = y;
-    let x_in = x;
-
-    if (y_in < 2000000) y_in += 2000000;
-    if (x_in < 1000000) x_in += 1000000;
-
-    const y_ = (y_in - 2600000) / 1000000;
-    const x_ = (x_in - 1200000) / 1000000;
-
-    const lambda_ = 2.6779094 + 4.728982 * y_ + 0.791484 * y_ * x_ + 0.1306 * y_ * Math.pow(x_, 2) - 0.0436 * Math.pow(y_, 3);
-    const phi_ = 16.9023892 + 3.238272 * x_ - 0.270978 * Math.pow(y_, 2) - 0.002528 * Math.pow(x_, 2) - 0.0447 * Math.pow(y_, 2) * x_ - 0.0140 * Math.pow(x_, 3);
-
-    return [phi_ * 100 / 36, lambda_ * 100 / 36];
+export type RadarRing = MeteoSwissRadarJSON['areas'][number]['shapes'][number][number];
+
+// [lat, lng] pairs.
+export type DecodedRing = Array<[number, number]>;
+
+// Rings in GeoJSON order: the outline first, then the holes cut into it (the
+// dry pockets inside a rain area).
+export type DecodedPolygon = DecodedRing[];
+
+// A shape is a list of rings sharing one outline. Decoding only shape[0]
+// paints every hole over as solid precipitation.
+export function decodePolygon(
+    shape: RadarRing[],
+    coords: GridConfig,
+    accuracy: ProjectionAccuracy = 'approximate',
+): DecodedPolygon | undefined {
+    const [outline, ...holes] = shape.map(ring => decodeShape(ring, coords, accuracy));
+    // Fewer than three points enclose nothing, and a hole-less outline of
+    // nothing would otherwise become an empty GeoJSON polygon.
+    if (!outline || outline.length < 3) return undefined;
+    return [outline, ...holes.filter(hole => hole.length >= 3)];
 }
 
-export function decodeShape(shape: { i: number, j: number, d: string, o: string }, coords: GridConfig): Array<[number, number]> {
+// A whole area (one colour) decoded into flat typed arrays: cheap to hand
+// from the decode worker to the page (the buffers are transferred, not
+// copied) and to keep around once decoded.
+export interface DecodedArea {
+    // As in the frame, with a leading "#". Snapped onto the palette when drawn.
+    color: string;
+    // lat, lng of every ring of every polygon, back to back.
+    coordinates: Float64Array;
+    // Index of each ring's first point in `coordinates`, plus one past the last.
+    rings: Uint32Array;
+    // Index of each polygon's outline in `rings`, plus one past the last. The
+    // rings up to the next polygon are its holes.
+    polygons: Uint32Array;
+}
+
+export interface DecodedFrame {
+    areas: DecodedArea[];
+}
+
+export function decodeFrame(data: MeteoSwissRadarJSON, accuracy: ProjectionAccuracy = 'approximate'): DecodedFrame {
+    const areas: DecodedArea[] = [];
+
+    data.areas.forEach(area => {
+        const polygons = area.shapes
+            .map(shape => decodePolygon(shape, data.coords, accuracy))
+            .filter((polygon): polygon is DecodedPolygon => polygon !== undefined);
+        if (!polygons.length) return;
+
+        const ringCount = polygons.reduce((sum, rings) => sum + rings.length, 0);
+        const pointCount = polygons.reduce((sum, rings) => rings.reduce((n, ring) => n + ring.length, sum), 0);
+        const decoded: DecodedArea = {
+            color: `#${area.color}`,
+            coordinates: new Float64Array(pointCount * 2),
+            rings: new Uint32Array(ringCount + 1),
+            polygons: new Uint32Array(polygons.length + 1),
+        };
+
+        let point = 0;
+        let ring = 0;
+        polygons.forEach((rings, polygon) => {
+            decoded.polygons[polygon] = ring;
+            rings.forEach(points => {
+                decoded.rings[ring++] = point;
+                points.forEach(([lat, lng]) => {
+                    decoded.coordinates[point * 2] = lat;
+                    decoded.coordinates[point * 2 + 1] = lng;
+                    point++;
+                });
+            });
+        });
+        decoded.rings[ring] = point;
+        decoded.polygons[polygons.length] = ring;
+
+        areas.push(decoded);
+    });
+
+    return { areas };
+}
+
+// The buffers to list as transferables when posting a decoded frame.
+export function decodedFrameBuffers(frame: DecodedFrame): ArrayBuffer[] {
+    return frame.areas.flatMap(area => [area.coordinates.buffer, area.rings.buffer, area.polygons.buffer] as ArrayBuffer[]);
+}
+
+export function decodeShape(
+    shape: { i: number, j: number, d: string, o: string },
+    coords: GridConfig,
+    accuracy: ProjectionAccuracy = 'approximate',
+): Array<[number, number]> {
+    // validateRadarFrame() already rejects unknown systems; this covers
+    // callers that decode without validating first.
+    const grid = parseSwissGrid(coords.system);
+    if (!grid) throw new RadarFormatError('radar frame', 'coords.system', `"${coords.system}" is not a known Swiss grid`);
+
     let r = shape.i;
     let o = shape.j;
     const result: Array<[number, number]> = [];
@@ -127,7 +157,7 @@ export function decodeShape(shape: { i: number, j: number, d: string, o: string
         // "o": "4499045555" -> char '4' -> 0.4 + 0.05 = 0.45
         const d_val = parseInt(shape.o.charAt(idx)) / 10 + 0.05;
 
-        // Calculate coordinate in Swiss Grid (LV95)
+        // Calculate coordinate in the Swiss grid
         // NOTE: coords.x_min etc are in Kilometers in the JSON (e.g. 255.5). multiply by 1000 for meters.
 
         if (r % 2 === 0) {
@@ -144,11 +174,7 @@ export function decodeShape(shape: { i: number, j: number, d: string, o: string
 
         // Convert to WGS84
         // Multiply by 1000 to get meters for the projection formula
-        const [lat, lng] = CHToWGS(n * 1000, l * 1000);
-
-        if (result.length === 0 && idx === 0) {
-            console.debug(`Decoder Sample: Grid[${r},${o}] -> Meters[${n * 1000},${l * 1000}] -> WGS[${lat},${lng}]`);
-        }
+        const [lat, lng] = CHToWGS(n * 1000, l * 1000, grid, accuracy);
 
         result.push([lat, lng]);
 
@@ -0,0 +1,121 @@
+import workerSource from 'worker:./decode-worker';
+import { DecodedFrame, decodeFrame, MeteoSwissRadarJSON } from './decoder';
+import { ProjectionAccuracy } from './projection';
+import { RadarFormatError } from './validate';
+
+export interface DecodeRequest {
+    id: number;
+    data: MeteoSwissRadarJSON;
+    accuracy: ProjectionAccuracy;
+}
+
+// Errors do not survive postMessage as themselves, so they travel as fields.
+export interface DecodeFailure {
+    name: string;
+    message: string;
+    // Set for a RadarFormatError.
+    payload?: string;
+    path?: string;
+    problem?: string;
+}
+
+export type DecodeResponse =
+    | { id: number; frame: DecodedFrame }
+    | { id: number; error: DecodeFailure };
+
+interface PendingDecode {
+    request: DecodeRequest;
+    resolve: (frame: DecodedFrame) => void;
+    reject: (error: Error) => void;
+}
+
+// Decoding a frame walks every vertex of every shape through the chain code
+// and the projection, which on a wall tablet is enough to make the 1 fps
+// animation and panning stutter. This hands it to a worker, and decodes on
+// the main thread instead wherever a worker cannot be started (no Worker
+// support, or a Content-Security-Policy that forbids blob: workers).
+export class FrameDecoder {
+    private worker?: Worker;
+    private workerUnavailable = false;
+    private nextId = 0;
+    private pending = new Map<number, PendingDecode>();
+
+    decode(data: MeteoSwissRadarJSON, accuracy: ProjectionAccuracy = 'approximate'): Promise<DecodedFrame> {
+        const worker = this.getWorker();
+        const request: DecodeRequest = { id: this.nextId++, data, accuracy };
+        if (!worker) return this.decodeHere(request);
+
+        return new Promise((resolve, reject) => {
+            this.pending.set(request.id, { request, resolve, reject });
+            worker.postMessage(request);
+        });
+    }
+
+    get usesWorker(): boolean {
+        return Boolean(this.worker);
+    }
+
+    private getWorker(): Worker | undefined {
+        if (this.worker || this.workerUnavailable) return this.worker;
+
+        try {
+            // The card ships as a single file, so the worker script is
+            // bundled into it and started from a blob: URL. The URL is kept:
+            // revoking it early breaks the worker's load in some browsers.
+            const url = URL.createObjectURL(new Blob([workerSource], { type: 'text/javascript' }));
+            const worker = new Worker(url);
+            worker.onmessage = (event: MessageEvent<DecodeResponse>) => this.settle(event.data);
+            // A script that failed to load or crashed: decode here from now on,
+            // including whatever was still waiting on the worker.
+            worker.onerror = event => {
+                console.warn('Radar decode worker failed, decoding on the main thread', event.message);
+                this.abandonWorker();
+            };
+            this.worker = worker;
+        } catch (e) {
+            console.warn('Radar decode worker unavailable, decoding on the main thread', e);
+            this.workerUnavailable = true;
+        }
+        return this.worker;
+    }
+
+    private settle(response: DecodeResponse): void {
+        const pending = this.pending.get(response.id);
+        if (!pending) return;
+        this.pending.delete(response.id);
+
+        if ('frame' in response) {
+            pending.resolve(response.frame);
+        } else {
+            pending.reject(reviveError(response.error));
+        }
+    }
+
+    private abandonWorker(): void {
+        this.worker?.terminate();
+        this.worker = undefined;
+        this.workerUnavailable = true;
+
+        const waiting = [...this.pending.values()];
+        this.pending.clear();
+        waiting.forEach(({ request, resolve, reject }) => this.decodeHere(request).then(resolve, reject));
+    }
+
+    // Deferred a tick so both paths are equally asynchronous.
+    private async decodeHere({ data, accuracy }: DecodeRequest): Promise<DecodedFrame> {
+        await Promise.resolve();
+        return decodeFrame(data, accuracy);
+    }
+}
+
+function reviveError(failure: DecodeFailure): Error {
+    if (failure.name === 'RadarFormatError' && failure.payload && failure.path && failure.problem) {
+        return new RadarFormatError(failure.payload, failure.path, failure.problem);
+    }
+    const error = new Error(failure.message);
+    error.name = failure.name;
+    return error;
+}
+
+// One worker for the whole page, shared by every card.
+export const frameDecoder = new FrameDecoder();
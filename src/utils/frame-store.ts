@@ -0,0 +1,381 @@
+import { MeteoSwissRadarFrame } from './meteoswiss-api';
+import { DecodedFrame, MeteoSwissRadarJSON } from './decoder';
+import { frameDecoder } from './frame-decoder';
+import { ProjectionAccuracy } from './projection';
+import { RadarDataSource, RetryState } from './radar-data-source';
+import { PersistentFrameCache } from './persistent-cache';
+import { RadarArchive } from './radar-archive';
+import { validateRadarFrame } from './validate';
+import { abortError } from './abort';
+
+// MeteoSwiss publishes a new radar frame every 5 minutes. Poll slightly more
+// often so a permanently open dashboard cannot phase-lock a full frame behind.
+const REFRESH_INTERVAL_MS = 4 * 60 * 1000;
+
+// Frame JSON is immutable per timestamp, so a frame only ever needs fetching
+// and decoding once. Without this the 1 fps loop re-fetches the whole window
+// on every pass (~1 request/second, forever) which is what rate limits the
+// CORS proxy, and re-decodes every frame it shows.
+// What is kept is the decoded geometry, a few hundred KB per frame, so the
+// budget covers a full animation window at both projection accuracies.
+const DECODED_CACHE_BUDGET_BYTES = 64 * 1024 * 1024;
+
+// Home Assistant tears cards down and rebuilds them on every dashboard edit or
+// view switch. Keeping an unsubscribed store around for a while means the
+// rebuilt card picks up the frames and cache instead of starting cold.
+const STORE_RETENTION_MS = REFRESH_INTERVAL_MS;
+
+export interface FrameStoreSubscriber {
+    // New data is available: a refresh produced a frame list that differs
+    // from the previous one. Unchanged refreshes are not announced.
+    onFrames(frames: MeteoSwissRadarFrame[]): void;
+    onRetry?(state: RetryState | undefined): void;
+}
+
+interface CachedFrame {
+    decoded: DecodedFrame;
+    bytes: number;
+}
+
+interface PendingFrame {
+    promise: Promise<MeteoSwissRadarJSON>;
+    controller: AbortController;
+    // Callers still interested; pinned callers are never subtracted.
+    waiters: number;
+}
+
+// One per data source configuration, shared by every card using it: a
+// dashboard with three radar cards makes the requests of one. Frame lists and
+// frame JSON are fetched once and handed to all subscribers, concurrent
+// requests for the same thing are coalesced, and there is a single refresh
+// timer no matter how many cards are listening.
+export class RadarFrameStore {
+    private frames: MeteoSwissRadarFrame[] = [];
+    private loadedAt = 0;
+    // Keyed by decodedKey(); Map order doubles as least recently used first.
+    private decodedCache = new Map<string, CachedFrame>();
+    private decodedBytes = 0;
+    private pendingFrames = new Map<string, PendingFrame>();
+    private pendingDecodes = new Map<string, Promise<DecodedFrame>>();
+    private pendingRefresh?: Promise<MeteoSwissRadarFrame[]>;
+    private subscribers = new Set<FrameStoreSubscriber>();
+    private refreshInterval?: number;
+    private disposeTimeout?: number;
+
+    constructor(
+        readonly source: RadarDataSource,
+        private readonly onDispose: () => void,
+        private readonly persistentCache?: PersistentFrameCache,
+        private readonly archive?: RadarArchive,
+    ) {
+        source.setRetryListener?.(state => {
+            this.subscribers.forEach(subscriber => subscriber.onRetry?.(state));
+        });
+        // A store nobody subscribes to (e.g. one per keystroke in the editor's
+        // proxy field) must not live forever either.
+        this.scheduleDispose();
+    }
+
+    get subscriberCount(): number {
+        return this.subscribers.size;
+    }
+
+    subscribe(subscriber: FrameStoreSubscriber): () => void {
+        this.subscribers.add(subscriber);
+
+        if (this.disposeTimeout) {
+            clearTimeout(this.disposeTimeout);
+            this.disposeTimeout = undefined;
+        }
+        if (!this.refreshInterval) {
+            this.refreshInterval = window.setInterval(() => {
+                this.refresh().catch(e => {
+                    // Keep serving the frames we already have; the next tick can recover.
+                    console.error('Radar refresh failed', e);
+                });
+            }, REFRESH_INTERVAL_MS);
+        }
+
+        return () => this.unsubscribe(subscriber);
+    }
+
+    private unsubscribe(subscriber: FrameStoreSubscriber): void {
+        if (!this.subscribers.delete(subscriber) || this.subscribers.size) return;
+
+        // Nobody is watching: stop polling, and forget the store if nobody
+        // comes back for it.
+        if (this.refreshInterval) {
+            clearInterval(this.refreshInterval);
+            this.refreshInterval = undefined;
+        }
+        this.scheduleDispose();
+    }
+
+    private scheduleDispose(): void {
+        this.disposeTimeout = window.setTimeout(() => {
+            this.disposeTimeout = undefined;
+            this.onDispose();
+        }, STORE_RETENTION_MS);
+    }
+
+    // The current frame list, fetching it only if no card has done so recently.
+    async load(): Promise<MeteoSwissRadarFrame[]> {
+        if (this.frames.length && Date.now() - this.loadedAt < REFRESH_INTERVAL_MS) {
+            return this.frames;
+        }
+        return this.refresh();
+    }
+
+    // Pull a fresh frame list. Without this a dashboard left open keeps looping
+    // the window captured when the card was created, so its "forecast" quietly
+    // ages into the past.
+    refresh(): Promise<MeteoSwissRadarFrame[]> {
+        if (!this.pendingRefresh) {
+            this.pendingRefresh = this.source.listFrames()
+                .then(listed => {
+                    // Custom sources written in plain JS may leave `kind` out;
+                    // anything not in the future is as good as observed.
+                    const now = Date.now() / 1000;
+                    const frames = listed.map(frame => frame.kind
+                        ? frame
+                        : { ...frame, kind: frame.timestamp <= now ? 'observed' as const : 'forecast' as const });
+
+                    if (!frames.length) return frames;
+
+                    this.loadedAt = Date.now();
+                    if (sameFrames(frames, this.frames)) return this.frames;
+
+                    this.frames = frames;
+                    this.pruneFrameCache(frames);
+                    this.subscribers.forEach(subscriber => subscriber.onFrames(frames));
+                    return frames;
+                })
+                .finally(() => {
+                    this.pendingRefresh = undefined;
+                });
+        }
+        return this.pendingRefresh;
+    }
+
+    // Start keeping observed frames for `hours`, for cards offering archive
+    // mode. Only frames loaded from now on are archived.
+    enableArchive(hours: number): void {
+        if (hours > 0) this.archive?.retain(hours);
+    }
+
+    // The observed frames of the last `hours`: what the archive holds, plus
+    // whatever of the current window it has not caught yet.
+    async listArchivedFrames(hours: number): Promise<MeteoSwissRadarFrame[]> {
+        const since = Date.now() / 1000 - hours * 3600;
+        const archived = await this.archive?.listFrames(since) ?? [];
+        const known = new Set(archived.map(frame => frame.radar_url));
+        const live = this.frames.filter(frame => frame.kind === 'observed'
+            && frame.timestamp >= since
+            && !known.has(frame.radar_url));
+
+        return [...archived, ...live].sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    // Without counting as a use, for buffered indicators and the prefetcher.
+    hasDecodedFrame(frame: MeteoSwissRadarFrame, accuracy: ProjectionAccuracy): boolean {
+        return this.decodedCache.has(decodedKey(frame, accuracy));
+    }
+
+    getDecodedFrame(frame: MeteoSwissRadarFrame, accuracy: ProjectionAccuracy): DecodedFrame | undefined {
+        const key = decodedKey(frame, accuracy);
+        const cached = this.decodedCache.get(key);
+        if (!cached) return undefined;
+
+        // Touch: move to the most recently used end.
+        this.decodedCache.delete(key);
+        this.decodedCache.set(key, cached);
+        return cached.decoded;
+    }
+
+    // What a card draws: the frame fetched (see fetchFrame) and decoded off
+    // the main thread. `signal` withdraws from the fetch only; a decode that
+    // has started is finished and cached for whoever asks next.
+    async decodeFrame(
+        frame: MeteoSwissRadarFrame,
+        accuracy: ProjectionAccuracy,
+        signal?: AbortSignal,
+    ): Promise<DecodedFrame> {
+        const cached = this.getDecodedFrame(frame, accuracy);
+        if (cached) return cached;
+
+        const key = decodedKey(frame, accuracy);
+        let pending = this.pendingDecodes.get(key);
+        if (!pending) {
+            const data = await this.fetchFrame(frame, signal);
+
+            // Another caller may have got there while this one was fetching.
+            const decoded = this.getDecodedFrame(frame, accuracy);
+            if (decoded) return decoded;
+
+            pending = this.pendingDecodes.get(key);
+            if (!pending) {
+                const created = frameDecoder.decode(data, accuracy)
+                    .then(decoded => {
+                        this.cacheDecoded(key, decoded);
+                        return decoded;
+                    })
+                    .finally(() => {
+                        if (this.pendingDecodes.get(key) === created) this.pendingDecodes.delete(key);
+                    });
+                pending = created;
+                this.pendingDecodes.set(key, pending);
+            }
+        }
+        return pending;
+    }
+
+    // Sizes of what is held in memory, for the card's debug line.
+    get cacheInfo(): { frames: number; bytes: number } {
+        return { frames: this.decodedCache.size, bytes: this.decodedBytes };
+    }
+
+    // The raw frame JSON, for decodeFrame(). Not cached in memory: once
+    // decoded it is only needed again by the persistent cache, which keeps
+    // its own copy.
+    // A caller passing `signal` only withdraws its own interest when it fires:
+    // the network request is only cancelled once every caller waiting on it
+    // has aborted. Callers without a signal (the prefetcher) pin the request,
+    // so a frame scrubbed past that prefetch still wants keeps downloading.
+    fetchFrame(frame: MeteoSwissRadarFrame, signal?: AbortSignal): Promise<MeteoSwissRadarJSON> {
+        if (signal?.aborted) return Promise.reject(abortError());
+
+        // Two cards animating in step ask for the same frame in the same tick.
+        let pending = this.pendingFrames.get(frame.radar_url);
+        if (!pending) {
+            const controller = new AbortController();
+            const created: PendingFrame = {
+                controller,
+                waiters: 0,
+                promise: this.loadFrame(frame, controller.signal)
+                    .finally(() => {
+                        if (this.pendingFrames.get(frame.radar_url) === created) {
+                            this.pendingFrames.delete(frame.radar_url);
+                        }
+                    }),
+            };
+            pending = created;
+            this.pendingFrames.set(frame.radar_url, pending);
+        }
+
+        const shared = pending;
+        shared.waiters++;
+        if (!signal) return shared.promise;
+
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                shared.waiters--;
+                if (shared.waiters === 0) {
+                    shared.controller.abort();
+                    // Let the next request for this frame start afresh.
+                    if (this.pendingFrames.get(frame.radar_url) === shared) {
+                        this.pendingFrames.delete(frame.radar_url);
+                    }
+                }
+                reject(abortError());
+            };
+            signal.addEventListener('abort', onAbort, { once: true });
+            shared.promise
+                .then(resolve, reject)
+                .finally(() => signal.removeEventListener('abort', onAbort));
+        });
+    }
+
+    // Behind the in-memory cache: what an earlier page load already fetched,
+    // the archive (for frames no longer in the window), then the network.
+    private async loadFrame(frame: MeteoSwissRadarFrame, signal: AbortSignal): Promise<MeteoSwissRadarJSON> {
+        const persisted = await this.persistentCache?.get(frame.radar_url);
+        if (persisted) {
+            // The archive may have been switched on after this frame was
+            // cached; record() skips frames it already holds.
+            this.archive?.record(frame, persisted);
+            return persisted;
+        }
+
+        const archived = await this.archive?.get(frame.radar_url);
+        if (archived) return archived;
+        if (signal.aborted) throw abortError();
+
+        // Checked here rather than in each data source, so a custom source
+        // producing the wrong shape gets the same precise error.
+        const data = validateRadarFrame(await this.source.fetchFrame(frame, signal));
+        // Not awaited: the card should not wait on a disk write to draw.
+        this.persistentCache?.put(frame.radar_url, data);
+        this.archive?.record(frame, data);
+        return data;
+    }
+
+    private cacheDecoded(key: string, decoded: DecodedFrame): void {
+        this.uncache(key);
+        const bytes = decoded.areas.reduce(
+            (sum, area) => sum + area.coordinates.byteLength + area.rings.byteLength + area.polygons.byteLength,
+            0
+        );
+        this.decodedCache.set(key, { decoded, bytes });
+        this.decodedBytes += bytes;
+
+        // Least recently used first; never evicts the frame just added.
+        for (const oldest of this.decodedCache.keys()) {
+            if (this.decodedBytes <= DECODED_CACHE_BUDGET_BYTES || oldest === key) break;
+            this.uncache(oldest);
+        }
+    }
+
+    private uncache(key: string): void {
+        const cached = this.decodedCache.get(key);
+        if (!cached) return;
+        this.decodedCache.delete(key);
+        this.decodedBytes -= cached.bytes;
+    }
+
+    // Frames that have slid out of the animation window will never be requested
+    // again, so drop them rather than waiting for the budget to evict them.
+    private pruneFrameCache(frames: MeteoSwissRadarFrame[]): void {
+        const live = new Set(frames.map(frame => frame.radar_url));
+
+        for (const key of [...this.decodedCache.keys()]) {
+            if (!live.has(urlOfKey(key))) this.uncache(key);
+        }
+        this.persistentCache?.prune(live);
+    }
+}
+
+// The same frame decodes differently per projection accuracy.
+function decodedKey(frame: MeteoSwissRadarFrame, accuracy: ProjectionAccuracy): string {
+    return `${accuracy} ${frame.radar_url}`;
+}
+
+function urlOfKey(key: string): string {
+    return key.slice(key.indexOf(' ') + 1);
+}
+
+function sameFrames(a: MeteoSwissRadarFrame[], b: MeteoSwissRadarFrame[]): boolean {
+    return a.length === b.length && a.every((frame, index) => frame.radar_url === b[index].radar_url);
+}
+
+// Module-level, so it is shared by every card on the page (the bundle is only
+// ever evaluated once, however many cards the dashboard has).
+const stores = new Map<string, RadarFrameStore>();
+
+// `key` identifies the data source configuration: cards with equal keys share
+// one store. `create` is only called when no such store exists yet.
+// `persistAs` names the source's frames (and archive) in IndexedDB; sources
+// whose frames are interchangeable (the same data source type behind different
+// proxies) should pass the same name.
+export function getFrameStore(key: string, create: () => RadarDataSource, persistAs?: string): RadarFrameStore {
+    let store = stores.get(key);
+    if (!store) {
+        const persistentCache = persistAs ? new PersistentFrameCache(persistAs) : undefined;
+        const archive = persistAs ? new RadarArchive(persistAs) : undefined;
+        const created: RadarFrameStore = new RadarFrameStore(create(), () => {
+            if (stores.get(key) === created) stores.delete(key);
+        }, persistentCache, archive);
+        store = created;
+        stores.set(key, store);
+    }
+    return store;
+}
@@ -0,0 +1,78 @@
+// The card's one IndexedDB database, shared by the frame cache and the radar
+// archive. Everything here resolves to undefined rather than throwing when
+// IndexedDB is unavailable (private browsing, a locked-down companion app
+// webview), so callers can treat that as "nothing stored".
+
+const DB_NAME = 'meteoswiss-radar-card';
+const DB_VERSION = 2;
+
+// Frame JSON and its bookkeeping live apart, so budgeting and pruning only
+// ever read the small metadata records, never the frames themselves. All
+// stores are keyed on a `source` name first, so two data sources that happen
+// to use the same paths never touch each other's entries.
+export const FRAME_STORE = 'frames';
+export const META_STORE = 'frame-meta';
+export const ARCHIVE_STORE = 'archive';
+export const ARCHIVE_META_STORE = 'archive-meta';
+
+// One connection for the whole page, opened on first use.
+let database: Promise<IDBDatabase | undefined> | undefined;
+
+export function openDatabase(): Promise<IDBDatabase | undefined> {
+    if (!database) {
+        database = new Promise<IDBDatabase | undefined>(resolve => {
+            if (typeof indexedDB === 'undefined') {
+                resolve(undefined);
+                return;
+            }
+
+            try {
+                const openRequest = indexedDB.open(DB_NAME, DB_VERSION);
+                openRequest.onupgradeneeded = () => {
+                    const db = openRequest.result;
+                    if (!db.objectStoreNames.contains(FRAME_STORE)) {
+                        db.createObjectStore(FRAME_STORE, { keyPath: ['source', 'radar_url'] });
+                    }
+                    if (!db.objectStoreNames.contains(META_STORE)) {
+                        db.createObjectStore(META_STORE, { keyPath: ['source', 'radar_url'] })
+                            .createIndex('source', 'source');
+                    }
+                    if (!db.objectStoreNames.contains(ARCHIVE_STORE)) {
+                        db.createObjectStore(ARCHIVE_STORE, { keyPath: ['source', 'radar_url'] });
+                    }
+                    if (!db.objectStoreNames.contains(ARCHIVE_META_STORE)) {
+                        // Keyed by time, so a range query returns frames in order.
+                        db.createObjectStore(ARCHIVE_META_STORE, { keyPath: ['source', 'timestamp'] });
+                    }
+                };
+                openRequest.onsuccess = () => resolve(openRequest.result);
+                openRequest.onerror = () => {
+                    console.warn('IndexedDB unavailable, frames will not persist', openRequest.error);
+                    resolve(undefined);
+                };
+                // Another tab holds an older version open; do without.
+                openRequest.onblocked = () => resolve(undefined);
+            } catch (e) {
+                // Firefox throws synchronously in some private browsing modes.
+                console.warn('IndexedDB unavailable, frames will not persist', e);
+                resolve(undefined);
+            }
+        });
+    }
+    return database;
+}
+
+export function request<T>(req: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result as T);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+export function complete(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
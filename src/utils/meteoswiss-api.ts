@@ -1,4 +1,34 @@
-export class MeteoSwissAPI {
+import { MeteoSwissRadarJSON } from './decoder';
+import { RadarDataSource, RetryListener, RetryState } from './radar-data-source';
+import { DEFAULT_PALETTE, paletteFromLegend, RadarPalette } from './palette';
+import { validateAnimationData, validateVersions } from './validate';
+import { isAbortError, sleep } from './abort';
+
+// Worth another attempt: rate limiting and the transient gateway/server errors
+// the proxies produce under load. Anything else (403 from a proxy allowlist,
+// 404 for a frame that aged out) will fail the same way again.
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 2000;
+
+// A Retry-After beyond this is treated as "not today": the 4 minute refresh
+// will try again anyway, and holding a request open that long helps nobody.
+const MAX_RETRY_DELAY_MS = 2 * 60 * 1000;
+
+// A proxy that fails this many requests in a row is skipped for a while, and
+// for twice as long each further time it fails when put back.
+const PROXY_BENCH_THRESHOLD = 2;
+const PROXY_BENCH_BASE_MS = 60 * 1000;
+const PROXY_BENCH_MAX_MS = 15 * 60 * 1000;
+
+interface ProxyHealth {
+    // Consecutive failures; reset by any success.
+    failures: number;
+    latencyMs?: number;
+    benchedUntil?: number;
+}
+
+export class MeteoSwissAPI implements RadarDataSource {
     private isLocal = ['localhost', '127.0.0.1'].includes(window.location.hostname);
 
     // Base URL for MeteoSwiss API
@@ -8,17 +38,69 @@ export class MeteoSwissAPI {
     // user of this card - configure `proxy_url` to point at your own instead.
     private readonly CORS_PROXY = 'https://corsproxy.io/?';
 
-    // User supplied proxy template, e.g. "https://me.workers.dev/?url={url}".
-    private proxyTemplate?: string;
+    // User supplied proxy templates, e.g. "https://me.workers.dev/?url={url}",
+    // in the order they should be tried.
+    private proxyTemplates: string[] = [];
+    private proxyHealth = new Map<string, ProxyHealth>();
+    private lastProxy?: string;
+
+    private retryListener?: RetryListener;
+    // Requests currently backing off, in the order they started to. Prefetch
+    // runs several at once, so one settling must not clear another's state.
+    private retrying = new Map<object, RetryState>();
+
+    // From the last animation.json, so a palette change at MeteoSwiss is
+    // picked up on the next refresh.
+    private palette: RadarPalette = DEFAULT_PALETTE;
+
+    // The animation version the current frame list was built from. versions.json
+    // is tiny; animation.json is not, so it is only fetched when this moves.
+    private lastVersion?: string;
+    private lastFrames?: MeteoSwissRadarFrame[];
+
+    setRetryListener(listener: RetryListener): void {
+        this.retryListener = listener;
+    }
+
+    // Path on the Home Assistant instance that proxies MeteoSwiss (e.g. a
+    // companion integration's "/api/meteoswiss"). When set, requests go there,
+    // same-origin and authenticated, instead of through a CORS proxy.
+    private haProxyPath?: string;
+    private haAuth?: HomeAssistantAuth;
+
+    setHomeAssistantProxy(path?: string): void {
+        this.haProxyPath = path?.replace(/\/+$/, '');
+    }
 
-    setProxyUrl(proxyUrl?: string): void {
-        const trimmed = proxyUrl?.trim();
-        this.proxyTemplate = trimmed ? trimmed : undefined;
+    // Home Assistant rotates its access token every 30 minutes, so the card
+    // hands over the live auth object rather than a token string.
+    setHomeAssistantAuth(auth?: HomeAssistantAuth): void {
+        this.haAuth = auth;
     }
 
-    private buildProxyUrl(url: string): string {
-        const template = this.proxyTemplate ?? this.CORS_PROXY;
+    // Sent with every request to a configured proxy (e.g. an Authorization or
+    // API key header guarding a private worker). Never sent to the built-in
+    // public proxy, which would otherwise receive your secrets.
+    private proxyHeaders: Record<string, string> = {};
 
+    setProxyHeaders(headers?: Record<string, string>): void {
+        this.proxyHeaders = { ...headers };
+    }
+
+    setProxyUrl(proxyUrl?: string | string[]): void {
+        const list = Array.isArray(proxyUrl) ? proxyUrl : [proxyUrl];
+        this.proxyTemplates = list
+            .map(template => template?.trim())
+            .filter((template): template is string => Boolean(template));
+        this.proxyHealth.clear();
+        this.lastProxy = undefined;
+    }
+
+    private get templates(): string[] {
+        return this.proxyTemplates.length ? this.proxyTemplates : [this.CORS_PROXY];
+    }
+
+    private buildProxyUrl(url: string, template: string = this.orderedProxies()[0]): string {
         // "{url}" placeholder wins; otherwise the encoded target is appended,
         // which is what corsproxy.io and most drop-in proxies expect.
         return template.includes('{url}')
@@ -26,52 +108,292 @@ export class MeteoSwissAPI {
             : `${template}${encodeURIComponent(url)}`;
     }
 
-    private async fetchWithCorsProxy(url: string, cache: RequestCache = 'default'): Promise<Response> {
+    // By host, so the public proxy listed in any form (e.g. with "?url={url}")
+    // is still never handed proxy_token / proxy_headers.
+    private isPublicProxy(template: string): boolean {
+        const host = proxyHostname(template);
+        const publicHost = proxyHostname(this.CORS_PROXY)!;
+        return host !== undefined && (host === publicHost || host.endsWith(`.${publicHost}`));
+    }
+
+    // Configured order, with benched proxies skipped. If every proxy is benched
+    // the one closest to parole goes first rather than failing outright.
+    private orderedProxies(): string[] {
+        const now = Date.now();
+        const healthy = this.templates.filter(template => (this.proxyHealth.get(template)?.benchedUntil ?? 0) <= now);
+        if (healthy.length) return healthy;
+
+        return [...this.templates].sort((a, b) =>
+            (this.proxyHealth.get(a)?.benchedUntil ?? 0) - (this.proxyHealth.get(b)?.benchedUntil ?? 0)
+        );
+    }
+
+    private recordProxySuccess(template: string, latencyMs: number): void {
+        const health = this.proxyHealth.get(template);
+        this.proxyHealth.set(template, {
+            failures: 0,
+            // Smoothed, so one slow frame does not dominate the debug readout.
+            latencyMs: health?.latencyMs === undefined ? latencyMs : health.latencyMs * 0.7 + latencyMs * 0.3,
+        });
+    }
+
+    private recordProxyFailure(template: string): void {
+        const health = this.proxyHealth.get(template) ?? { failures: 0 };
+        const failures = health.failures + 1;
+        const benchedUntil = failures >= PROXY_BENCH_THRESHOLD
+            ? Date.now() + Math.min(PROXY_BENCH_MAX_MS, PROXY_BENCH_BASE_MS * Math.pow(2, failures - PROXY_BENCH_THRESHOLD))
+            : undefined;
+
+        this.proxyHealth.set(template, { ...health, failures, benchedUntil });
+    }
+
+    // "https://www.meteoswiss.admin.ch/product/output/x.json" becomes
+    // "/api/meteoswiss/product/output/x.json" on the Home Assistant origin.
+    private async fetchViaHomeAssistant(url: string, cache: RequestCache, signal?: AbortSignal): Promise<Response> {
+        const target = `${this.haProxyPath}${new URL(url).pathname}`;
+        const send = () => fetch(target, {
+            cache,
+            signal,
+            headers: {
+                'Accept': 'application/json',
+                ...this.proxyHeaders,
+                ...(this.haAuth?.data.access_token ? { 'Authorization': `Bearer ${this.haAuth.data.access_token}` } : {}),
+            },
+        });
+
+        const response = await send();
+        // The token expired between Home Assistant's own refreshes (e.g. the
+        // tablet slept through one): refresh it and try once more.
+        if (response.status === 401 && this.haAuth?.refreshAccessToken) {
+            await this.haAuth.refreshAccessToken();
+            return send();
+        }
+        return response;
+    }
+
+    private async fetchWithCorsProxy(url: string, cache: RequestCache = 'default', signal?: AbortSignal): Promise<Response> {
+        if (this.haProxyPath !== undefined) {
+            return this.fetchViaHomeAssistant(url, cache, signal);
+        }
+
         // Try direct fetch first (works in local dev with proxy)
         if (this.isLocal) {
-            return fetch(url.replace(this.METEOSWISS_BASE, '/product/output'), { cache });
+            return fetch(url.replace(this.METEOSWISS_BASE, '/product/output'), { cache, signal });
         }
 
-        // For production, use CORS proxy to bypass restrictions
-        // This proxies the request through a CORS-enabled server
-        return await fetch(this.buildProxyUrl(url), {
-            cache,
-            headers: {
-                'Accept': 'application/json'
+        // For production, use CORS proxy to bypass restrictions. Each attempt
+        // walks the proxy list, so a dead self-hosted worker falls through to
+        // the next proxy immediately instead of waiting out a backoff.
+        const proxies = this.orderedProxies();
+        let lastResponse: Response | undefined;
+        let lastError: unknown;
+
+        for (const template of proxies) {
+            const started = performance.now();
+            try {
+                const response = await fetch(this.buildProxyUrl(url, template), {
+                    cache,
+                    signal,
+                    headers: {
+                        'Accept': 'application/json',
+                        ...(this.isPublicProxy(template) ? {} : this.proxyHeaders),
+                    }
+                });
+
+                if (RETRYABLE_STATUSES.has(response.status)) {
+                    this.recordProxyFailure(template);
+                    lastResponse = response;
+                    continue;
+                }
+
+                this.recordProxySuccess(template, performance.now() - started);
+                this.lastProxy = template;
+                return response;
+            } catch (e) {
+                // We gave up on the request; the proxy did nothing wrong.
+                if (isAbortError(e)) throw e;
+                this.recordProxyFailure(template);
+                lastError = e;
             }
-        });
+        }
+
+        // Every proxy failed: hand the last retryable status (or the network
+        // error) to fetchWithRetry, which decides whether to back off.
+        if (lastResponse) return lastResponse;
+        throw lastError;
+    }
+
+    getDebugInfo(): Record<string, string> {
+        const info: Record<string, string> = {};
+        if (this.haProxyPath !== undefined) {
+            info.proxy = `Home Assistant (${this.haProxyPath || '/'})`;
+            info.token = this.haAuth?.data.access_token ? 'present' : 'missing';
+            return info;
+        }
+        if (this.isLocal) {
+            info.proxy = 'none (local dev server)';
+            return info;
+        }
+
+        info.proxy = this.lastProxy ? describeProxy(this.lastProxy) : 'none yet';
+        const latency = this.lastProxy ? this.proxyHealth.get(this.lastProxy)?.latencyMs : undefined;
+        if (latency !== undefined) {
+            info.latency = `${Math.round(latency)} ms`;
+        }
+
+        const now = Date.now();
+        const benched = this.templates
+            .filter(template => (this.proxyHealth.get(template)?.benchedUntil ?? 0) > now)
+            .map(template => `${describeProxy(template)} (${this.proxyHealth.get(template)!.failures} failures)`);
+        if (benched.length) {
+            info.benched = benched.join(', ');
+        }
+        return info;
+    }
+
+    // Every request goes through here. corsproxy.io answers bursts with 429, and
+    // often without CORS headers, which the browser reports as a network error -
+    // so a failed fetch is retried just like a retryable status.
+    private async fetchWithRetry(url: string, cache: RequestCache = 'default', signal?: AbortSignal): Promise<Response> {
+        const request = {};
+        try {
+            for (let attempt = 1; ; attempt++) {
+                let response: Response | undefined;
+                try {
+                    response = await this.fetchWithCorsProxy(url, cache, signal);
+                } catch (e) {
+                    if (isAbortError(e) || attempt >= MAX_ATTEMPTS) throw e;
+                }
+
+                if (response && (response.ok || !RETRYABLE_STATUSES.has(response.status) || attempt >= MAX_ATTEMPTS)) {
+                    return response;
+                }
+
+                const delayMs = this.retryDelay(attempt, response);
+                if (delayMs === undefined) {
+                    // Only reachable with a response: network errors always back off.
+                    return response!;
+                }
+
+                const state = { attempt, status: response?.status, delayMs, retryAt: Date.now() + delayMs };
+                this.retrying.delete(request);
+                this.retrying.set(request, state);
+                this.retryListener?.(state);
+                await sleep(delayMs, signal);
+            }
+        } finally {
+            // Fall back to whichever request is still waiting, if any.
+            if (this.retrying.delete(request)) {
+                this.retryListener?.(Array.from(this.retrying.values()).pop());
+            }
+        }
     }
 
-    async getVersions(): Promise<Record<string, string>> {
+    // Exponential backoff with jitter, so every card on a rate-limited proxy
+    // does not come back in the same second. The server's Retry-After wins when
+    // present; undefined means it asked for longer than is worth waiting.
+    private retryDelay(attempt: number, response?: Response): number | undefined {
+        const retryAfter = response ? parseRetryAfter(response.headers.get('Retry-After')) : undefined;
+        if (retryAfter !== undefined) {
+            return retryAfter <= MAX_RETRY_DELAY_MS ? retryAfter : undefined;
+        }
+
+        const backoff = RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1);
+        return Math.min(MAX_RETRY_DELAY_MS, backoff / 2 + Math.random() * backoff / 2);
+    }
+
+    async getVersions(): Promise<MeteoSwissVersions> {
         // The only URL here that is not immutable (MeteoSwiss serves it with
         // max-age=60), so this is the one request that must skip the HTTP cache.
+        // 'no-cache' still lets the browser revalidate with the cached ETag
+        // (If-None-Match) wherever the proxy passes it through, and a 304 comes
+        // back to us as the cached 200. Setting If-None-Match by hand would do
+        // no better and would cost a CORS preflight on every refresh.
         const url = `${this.METEOSWISS_BASE}/versions.json`;
-        const response = await this.fetchWithCorsProxy(url, 'no-cache');
+        const response = await this.fetchWithRetry(url, 'no-cache');
 
         if (!response.ok) {
             throw new Error(`Failed to fetch versions: ${response.status} ${response.statusText}`);
         }
-        return response.json();
+        return validateVersions(await response.json());
     }
 
     async getAnimationData(timestamp: string): Promise<MeteoSwissAnimationData> {
         const url = `${this.METEOSWISS_BASE}/precipitation/animation/version__${timestamp}/en/animation.json`;
-        const response = await this.fetchWithCorsProxy(url);
+        const response = await this.fetchWithRetry(url);
 
         if (!response.ok) {
             throw new Error(`Failed to fetch animation data: ${response.status} ${response.statusText}`);
         }
-        return response.json();
+        return validateAnimationData(await response.json());
     }
 
     // Frame URLs are timestamped and therefore immutable, and MeteoSwiss serves
     // them with max-age=86400 - let the browser HTTP cache do its job.
-    async fetchRadarFrame(radarUrl: string): Promise<Response> {
+    // `signal` cancels the request, including any backoff it is waiting out.
+    async fetchRadarFrame(radarUrl: string, signal?: AbortSignal): Promise<Response> {
         const fullUrl = radarUrl.startsWith('http')
             ? radarUrl
             : `https://www.meteoswiss.admin.ch${radarUrl}`;
 
-        return this.fetchWithCorsProxy(fullUrl);
+        return this.fetchWithRetry(fullUrl, 'default', signal);
+    }
+
+    async listFrames(): Promise<MeteoSwissRadarFrame[]> {
+        const versions = await this.getVersions();
+
+        const accum = versions['precipitation/animation']; // Timestamp
+        if (!accum) throw new Error('No animation timestamp found');
+
+        // Unchanged version: hand back the very same list, which also tells the
+        // frame store there is nothing new to announce.
+        if (accum === this.lastVersion && this.lastFrames) {
+            return this.lastFrames;
+        }
+
+        const animationData = await this.getAnimationData(accum);
+        this.palette = paletteFromLegend(animationData.legend) ?? DEFAULT_PALETTE;
+
+        // map_images is an array of day objects: [{ day: '...', pictures: [...] }, ...]
+        const now = Date.now() / 1000;
+        const unrecognised: string[] = [];
+        const frames = animationData.map_images
+            .reduce<MeteoSwissAnimationPicture[]>((acc, dayGroup) => acc.concat(dayGroup.pictures || []), [])
+            .filter(picture => Boolean(picture.radar_url))
+            .map(picture => {
+                const kind = frameKind(picture.radar_url);
+                if (!kind) unrecognised.push(picture.radar_url);
+                return {
+                    timestamp: picture.timestamp,
+                    radar_url: picture.radar_url,
+                    // animation.json marks neither kind nor "now": a file name
+                    // we do not know falls back to the clock.
+                    kind: kind ?? (picture.timestamp <= now ? 'observed' as const : 'forecast' as const),
+                };
+            })
+            .sort((a, b) => a.timestamp - b.timestamp);
+
+        if (unrecognised.length) {
+            console.warn(
+                `MeteoSwiss radar: ${unrecognised.length} frame URL(s) are neither radar (RZC) nor nowcast (INCA), `
+                + `e.g. ${unrecognised[0]}. Telling measured from forecast frames by time instead.`
+            );
+        }
+
+        this.lastVersion = accum;
+        this.lastFrames = frames;
+        return frames;
+    }
+
+    // URL in animation.json is relative: /product/output/radar/rzc/radar_rzc.2025...json
+    async fetchFrame(frame: MeteoSwissRadarFrame, signal?: AbortSignal): Promise<MeteoSwissRadarJSON> {
+        const resp = await this.fetchRadarFrame(frame.radar_url, signal);
+        if (!resp.ok) throw new Error(`Fetch failed: ${resp.status}`);
+        return resp.json();
+    }
+
+    describePalette(): RadarPalette {
+        return this.palette;
     }
 
     getEffectiveUrl(path: string): string {
@@ -83,16 +405,93 @@ export class MeteoSwissAPI {
     }
 }
 
+// The part of Home Assistant's `hass.auth` the API needs.
+export interface HomeAssistantAuth {
+    data: {
+        access_token: string;
+    };
+    refreshAccessToken?(): Promise<void>;
+}
+
+// Measured frames are the radar composite (RZC), forecast ones the INCA
+// nowcast. undefined: MeteoSwiss renamed its files and the caller has to
+// decide some other way.
+function frameKind(radarUrl: string): RadarFrameKind | undefined {
+    if (/rzc/i.test(radarUrl)) return 'observed';
+    if (/inca/i.test(radarUrl)) return 'forecast';
+    return undefined;
+}
+
+// Templates may carry a secret in the path or query, so only the host is shown.
+function describeProxy(template: string): string {
+    try {
+        return new URL(template.replace('{url}', '')).host;
+    } catch {
+        return 'custom proxy';
+    }
+}
+
+function proxyHostname(template: string): string | undefined {
+    try {
+        return new URL(template.replace('{url}', '')).hostname.toLowerCase();
+    } catch {
+        return undefined;
+    }
+}
+
+// Retry-After is either delta-seconds or an HTTP date. Note that a proxy has to
+// list it in Access-Control-Expose-Headers for the browser to let us read it.
+function parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(value);
+    if (Number.isNaN(date)) return undefined;
+    return Math.max(0, date - Date.now());
+}
+
+export type RadarFrameKind = 'observed' | 'forecast';
+
 export interface MeteoSwissRadarFrame {
     timestamp: number; // Epoch seconds
     radar_url: string;
+    kind: RadarFrameKind;
+}
+
+// versions.json versions every MeteoSwiss product; only the radar
+// animation's entry concerns this card.
+export interface MeteoSwissVersions {
+    'precipitation/animation': string;
+    [product: string]: unknown;
+}
+
+export interface MeteoSwissAnimationPicture {
+    timestamp: number; // Epoch seconds
+    radar_url: string;
 }
 
 export interface MeteoSwissAnimationDay {
     day: string;
-    pictures: MeteoSwissRadarFrame[];
+    pictures: MeteoSwissAnimationPicture[];
 }
 
 export interface MeteoSwissAnimationData {
     map_images: MeteoSwissAnimationDay[];
+    legend?: MeteoSwissLegend;
+}
+
+// The colour scale MeteoSwiss' own app shows under the map. Bounds are in
+// `unit` (mm/h); entries may carry them explicitly or only in `label`.
+export interface MeteoSwissLegend {
+    unit?: string;
+    items: MeteoSwissLegendItem[];
+}
+
+export interface MeteoSwissLegendItem {
+    color: string;
+    min?: number;
+    max?: number;
+    label?: string;
 }
@@ -0,0 +1,131 @@
+import { MeteoSwissLegend } from './meteoswiss-api';
+
+// One precipitation intensity band, as shown in the map legend.
+export interface RadarBand {
+    color: string;
+    min: number;
+    // undefined for the open-ended top band.
+    max?: number;
+    label: string;
+}
+
+export interface RadarPalette {
+    unit: string;
+    // Ascending intensity.
+    bands: RadarBand[];
+}
+
+// MeteoSwiss draws a >60 mm/h band but publishes no legend entry for it, so it
+// is appended whenever the published legend ends in a bounded band.
+const EXTREME_BAND_COLOR = '#AC00DB';
+
+// What animation.json's legend said when this card was written; only used if
+// a frame list arrives without one.
+export const DEFAULT_PALETTE: RadarPalette = buildPalette('mm/h', [
+    { color: '#9A7E95', min: 0, max: 1 },
+    { color: '#0001FC', min: 1, max: 2 },
+    { color: '#058C2D', min: 2, max: 4 },
+    { color: '#05FF05', min: 4, max: 6 },
+    { color: '#FEFF01', min: 6, max: 10 },
+    { color: '#FFC703', min: 10, max: 20 },
+    { color: '#FF7D01', min: 20, max: 40 },
+    { color: '#FF1900', min: 40, max: 60 },
+]);
+
+export function paletteFromLegend(legend: MeteoSwissLegend | undefined): RadarPalette | undefined {
+    if (!legend?.items.length) return undefined;
+
+    // Bounds come from explicit fields where present, else from the numbers
+    // in the label ("0.2 - 1", "> 60"). A band without an upper bound ends
+    // where the next one starts.
+    const parsed = legend.items.map(item => {
+        const numbers = (item.label?.match(/\d+(?:[.,]\d+)?/g) ?? []).map(n => Number(n.replace(',', '.')));
+        const openEnded = /^\s*(>|≥|\+)/.test(item.label ?? '') || /\+\s*$/.test(item.label ?? '');
+        return {
+            color: item.color,
+            min: item.min ?? numbers[0],
+            max: item.max ?? (openEnded ? undefined : numbers[1]),
+            openEnded,
+        };
+    });
+
+    const bands = parsed
+        .map((item, index) => ({
+            color: item.color,
+            min: item.min,
+            max: item.openEnded ? undefined : item.max ?? parsed[index + 1]?.min,
+        }))
+        .filter((band): band is { color: string; min: number; max: number | undefined } => band.min !== undefined);
+
+    if (!bands.length) return undefined;
+    return buildPalette(legend.unit || 'mm/h', bands);
+}
+
+function buildPalette(unit: string, bands: Array<Omit<RadarBand, 'label'>>): RadarPalette {
+    const top = bands[bands.length - 1];
+    const all = top.max === undefined
+        ? bands
+        : [...bands, { color: EXTREME_BAND_COLOR, min: top.max, max: undefined }];
+
+    return {
+        unit,
+        bands: all.map(band => ({
+            ...band,
+            label: band.max === undefined ? `> ${band.min} ${unit}` : `${band.min}–${band.max} ${unit}`,
+        })),
+    };
+}
+
+// The observed radar (RZC) frames use a washed out variant of the legend
+// colours, while the forecast (INCA) frames use the legend colours verbatim.
+// Snapping every area colour onto its nearest legend colour makes the whole
+// animation consistent with the app without a hand-kept lookup table.
+//
+// Only unambiguous matches snap: the non-precipitation overlays (#333e48,
+// #ffffff) are far from every band and are passed through untouched.
+const MAX_SNAP_DISTANCE = 160;
+const MIN_SNAP_MARGIN = 1.5;
+
+const matchCache = new WeakMap<RadarPalette, Map<string, RadarBand | undefined>>();
+
+export function matchBand(palette: RadarPalette, rawColor: string): RadarBand | undefined {
+    let cache = matchCache.get(palette);
+    if (!cache) {
+        cache = new Map();
+        matchCache.set(palette, cache);
+    }
+
+    const key = rawColor.toLowerCase();
+    if (cache.has(key)) return cache.get(key);
+
+    const ranked = palette.bands
+        .map(band => ({ band, distance: colorDistance(key, band.color) }))
+        .sort((a, b) => a.distance - b.distance);
+
+    const [best, runnerUp] = ranked;
+    const match = best
+        && best.distance <= MAX_SNAP_DISTANCE
+        && (!runnerUp || best.distance * MIN_SNAP_MARGIN < runnerUp.distance)
+        ? best.band
+        : undefined;
+
+    cache.set(key, match);
+    return match;
+}
+
+// "Redmean" weighted RGB distance: cheap, and much closer to how different two
+// colours look than plain Euclidean RGB.
+function colorDistance(a: string, b: string): number {
+    const [r1, g1, b1] = parseHex(a);
+    const [r2, g2, b2] = parseHex(b);
+    const r = (r1 + r2) / 2;
+    const dr = r1 - r2;
+    const dg = g1 - g2;
+    const db = b1 - b2;
+    return Math.sqrt((2 + r / 256) * dr * dr + 4 * dg * dg + (2 + (255 - r) / 256) * db * db);
+}
+
+function parseHex(color: string): [number, number, number] {
+    const hex = color.replace('#', '');
+    return [0, 2, 4].map(offset => parseInt(hex.substr(offset, 2), 16) || 0) as [number, number, number];
+}
@@ -0,0 +1,109 @@
+import { MeteoSwissRadarJSON } from './decoder';
+import { complete, FRAME_STORE, META_STORE, openDatabase, request } from './idb';
+
+// Enough for a few full animation windows (~17 KB per frame). IndexedDB quota
+// is per origin and shared with Home Assistant's own frontend, so stay modest.
+const PERSISTENT_CACHE_BUDGET_BYTES = 20 * 1024 * 1024;
+
+interface StoredFrame {
+    source: string;
+    radar_url: string;
+    data: MeteoSwissRadarJSON;
+}
+
+interface StoredFrameMeta {
+    source: string;
+    radar_url: string;
+    // Approximate: the length of the frame serialised as JSON.
+    bytes: number;
+    storedAt: number;
+}
+
+// Frame JSON is immutable per timestamp, so what was fetched before a page
+// reload is still valid after it. This keeps it across reloads and dashboard
+// switches, keyed by radar_url like the in-memory cache in front of it.
+//
+// Every method degrades to a no-op when IndexedDB is unavailable (private
+// browsing, a locked-down companion app webview, quota errors): the card then
+// simply fetches as it would without this layer.
+export class PersistentFrameCache {
+    constructor(private readonly source: string) {}
+
+    async get(radarUrl: string): Promise<MeteoSwissRadarJSON | undefined> {
+        const db = await openDatabase();
+        if (!db) return undefined;
+
+        try {
+            const stored = await request<StoredFrame | undefined>(
+                db.transaction(FRAME_STORE, 'readonly').objectStore(FRAME_STORE).get([this.source, radarUrl])
+            );
+            return stored?.data;
+        } catch (e) {
+            console.warn('Persistent frame cache read failed', e);
+            return undefined;
+        }
+    }
+
+    async put(radarUrl: string, data: MeteoSwissRadarJSON): Promise<void> {
+        const db = await openDatabase();
+        if (!db) return;
+
+        try {
+            const tx = db.transaction([FRAME_STORE, META_STORE], 'readwrite');
+            tx.objectStore(FRAME_STORE).put({ source: this.source, radar_url: radarUrl, data } as StoredFrame);
+            tx.objectStore(META_STORE).put({
+                source: this.source,
+                radar_url: radarUrl,
+                bytes: JSON.stringify(data).length,
+                storedAt: Date.now(),
+            } as StoredFrameMeta);
+            await complete(tx);
+            await this.enforceBudget(db);
+        } catch (e) {
+            console.warn('Persistent frame cache write failed', e);
+        }
+    }
+
+    // Same rule as the in-memory cache: frames that have slid out of the
+    // animation window will never be requested again.
+    async prune(liveUrls: Set<string>): Promise<void> {
+        const db = await openDatabase();
+        if (!db) return;
+
+        try {
+            const tx = db.transaction([FRAME_STORE, META_STORE], 'readwrite');
+            const metas = await request<StoredFrameMeta[]>(
+                tx.objectStore(META_STORE).index('source').getAll(IDBKeyRange.only(this.source))
+            );
+            metas
+                .filter(meta => !liveUrls.has(meta.radar_url))
+                .forEach(meta => deleteEntry(tx, meta));
+            await complete(tx);
+        } catch (e) {
+            console.warn('Persistent frame cache prune failed', e);
+        }
+    }
+
+    // Across all sources, oldest entries go first once the budget is exceeded.
+    private async enforceBudget(db: IDBDatabase): Promise<void> {
+        const tx = db.transaction([FRAME_STORE, META_STORE], 'readwrite');
+        const metas = await request<StoredFrameMeta[]>(tx.objectStore(META_STORE).getAll());
+
+        let total = metas.reduce((sum, meta) => sum + meta.bytes, 0);
+        if (total > PERSISTENT_CACHE_BUDGET_BYTES) {
+            metas.sort((a, b) => a.storedAt - b.storedAt);
+            for (const meta of metas) {
+                if (total <= PERSISTENT_CACHE_BUDGET_BYTES) break;
+                deleteEntry(tx, meta);
+                total -= meta.bytes;
+            }
+        }
+        await complete(tx);
+    }
+}
+
+function deleteEntry(tx: IDBTransaction, meta: StoredFrameMeta): void {
+    const key = [meta.source, meta.radar_url];
+    tx.objectStore(FRAME_STORE).delete(key);
+    tx.objectStore(META_STORE).delete(key);
+}
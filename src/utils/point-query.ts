@@ -0,0 +1,77 @@
+import { DecodedArea, DecodedFrame } from './decoder';
+import { matchBand, RadarBand, RadarPalette } from './palette';
+import { MeteoSwissRadarFrame } from './meteoswiss-api';
+
+export interface PointIntensity {
+    timestamp: number;
+    kind: MeteoSwissRadarFrame['kind'];
+    // undefined: dry.
+    band?: RadarBand;
+}
+
+// How hard it is raining at one spot in a decoded frame: the band of the
+// area containing the point, or undefined where it is dry.
+//
+// Areas that are not precipitation (the overlays matchBand() leaves alone)
+// never answer. Should several bands contain the point (nested contours) the
+// strongest one wins, as it is the one drawn on top.
+export function queryBand(
+    frame: DecodedFrame,
+    palette: RadarPalette,
+    lat: number,
+    lng: number,
+): RadarBand | undefined {
+    let strongest: RadarBand | undefined;
+    let strongestIndex = -1;
+
+    frame.areas.forEach(area => {
+        const band = matchBand(palette, area.color);
+        if (!band) return;
+
+        const index = palette.bands.indexOf(band);
+        if (index <= strongestIndex || !areaContains(area, lat, lng)) return;
+
+        strongest = band;
+        strongestIndex = index;
+    });
+
+    return strongest;
+}
+
+export function areaContains(area: DecodedArea, lat: number, lng: number): boolean {
+    for (let p = 0; p < area.polygons.length - 1; p++) {
+        const outline = area.polygons[p];
+        if (!ringContains(area, outline, lat, lng)) continue;
+
+        // Inside the outline, unless inside one of its holes.
+        let inHole = false;
+        for (let r = outline + 1; r < area.polygons[p + 1] && !inHole; r++) {
+            inHole = ringContains(area, r, lat, lng);
+        }
+        if (!inHole) return true;
+    }
+    return false;
+}
+
+// Even-odd ray casting along the latitude. Treating lat/lng as planar is fine
+// at radar resolution: the rings' edges are ~1 km long.
+function ringContains(area: DecodedArea, ring: number, lat: number, lng: number): boolean {
+    const { coordinates } = area;
+    const start = area.rings[ring];
+    const end = area.rings[ring + 1];
+    if (end - start < 3) return false;
+
+    let inside = false;
+    for (let i = start, j = end - 1; i < end; j = i++) {
+        const latI = coordinates[i * 2];
+        const lngI = coordinates[i * 2 + 1];
+        const latJ = coordinates[j * 2];
+        const lngJ = coordinates[j * 2 + 1];
+
+        if ((latI > lat) !== (latJ > lat)
+            && lng < (lngJ - lngI) * (lat - latI) / (latJ - latI) + lngI) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
@@ -0,0 +1,49 @@
+import { MeteoSwissRadarFrame } from './meteoswiss-api';
+
+// Warms the frame cache ahead of playback, so the first loop does not stutter
+// and scrubbing lands on frames that are already there. At most `concurrency`
+// frames are in flight at once, to stay friendly to rate-limited proxies.
+export class PrefetchScheduler {
+    private queue: MeteoSwissRadarFrame[] = [];
+    private active = 0;
+
+    constructor(
+        private readonly fetchFrame: (frame: MeteoSwissRadarFrame) => Promise<unknown>,
+        private readonly isReady: (frame: MeteoSwissRadarFrame) => boolean,
+        // Called whenever a prefetch settles, e.g. to redraw a buffered indicator.
+        private readonly onSettled: () => void,
+        public concurrency: number,
+    ) {}
+
+    // Replaces whatever was still queued. Frames are taken in playback order
+    // starting at `startIndex` and wrapping around, i.e. the order the
+    // animation will ask for them.
+    schedule(frames: MeteoSwissRadarFrame[], startIndex: number): void {
+        const start = Math.max(0, Math.min(startIndex, frames.length - 1));
+        this.queue = [...frames.slice(start), ...frames.slice(0, start)].filter(frame => !this.isReady(frame));
+        this.pump();
+    }
+
+    cancel(): void {
+        this.queue = [];
+    }
+
+    private pump(): void {
+        while (this.active < this.concurrency && this.queue.length) {
+            const frame = this.queue.shift()!;
+            if (this.isReady(frame)) continue;
+
+            this.active++;
+            this.fetchFrame(frame)
+                .catch(e => {
+                    // The render path reports failures for frames actually shown.
+                    console.debug('Prefetch failed', frame.radar_url, e);
+                })
+                .finally(() => {
+                    this.active--;
+                    this.onSettled();
+                    this.pump();
+                });
+        }
+    }
+}
@@ -0,0 +1,222 @@
+// Swiss grid <-> WGS84, following swisstopo's published formulas:
+// https://www.swisstopo.admin.ch/en/knowledge-facts/surveying-geodesy/reference-frames/transformations-position.html
+//
+// Two accuracies:
+// - 'approximate': swisstopo's polynomial approximation, good to about a metre
+//   inside Switzerland and far cheaper. Plenty for 1 km radar cells.
+// - 'precise': the rigorous oblique Mercator projection on the Bessel
+//   ellipsoid plus the CH1903+ -> WGS84 datum shift, good to a few
+//   centimetres for LV95. For point queries that want to be exact.
+//
+// Coordinates are always (east, north) in metres, whichever grid.
+
+export type SwissGrid = 'LV03' | 'LV95';
+export const PROJECTION_ACCURACIES = ['approximate', 'precise'] as const;
+export type ProjectionAccuracy = (typeof PROJECTION_ACCURACIES)[number];
+
+// What a radar frame's coords.system may call each grid, normalised by
+// parseSwissGrid(): lower case, "+" spelled "plus", punctuation dropped.
+const GRID_ALIASES: Record<string, SwissGrid> = {
+    lv03: 'LV03',
+    chlv03: 'LV03',
+    ch1903: 'LV03',
+    ch1903lv03: 'LV03',
+    swisslv03: 'LV03',
+    swissgrid: 'LV03',
+    epsg21781: 'LV03',
+    lv95: 'LV95',
+    chlv95: 'LV95',
+    ch1903plus: 'LV95',
+    ch1903pluslv95: 'LV95',
+    swisslv95: 'LV95',
+    epsg2056: 'LV95',
+};
+
+export function parseSwissGrid(system: string): SwissGrid | undefined {
+    const key = system.toLowerCase().replace(/\+/g, 'plus').replace(/[^a-z0-9]/g, '');
+    return GRID_ALIASES[key];
+}
+
+// LV95 is LV03 with a false origin that keeps every coordinate positive and
+// the two axes distinguishable. The residual distortion between the two
+// frames (up to ~1.5 m, swisstopo's FINELTRA) is not modelled.
+const LV95_EAST_OFFSET = 2000000;
+const LV95_NORTH_OFFSET = 1000000;
+
+function toLV95(east: number, north: number, grid: SwissGrid): [number, number] {
+    return grid === 'LV03' ? [east + LV95_EAST_OFFSET, north + LV95_NORTH_OFFSET] : [east, north];
+}
+
+function fromLV95(east: number, north: number, grid: SwissGrid): [number, number] {
+    return grid === 'LV03' ? [east - LV95_EAST_OFFSET, north - LV95_NORTH_OFFSET] : [east, north];
+}
+
+// Returns [lat, lng] in degrees, WGS84.
+export function CHToWGS(
+    east: number,
+    north: number,
+    grid: SwissGrid,
+    accuracy: ProjectionAccuracy = 'approximate',
+): [number, number] {
+    const [e, n] = toLV95(east, north, grid);
+    return accuracy === 'precise' ? preciseToWGS(e, n) : approximateToWGS(e, n);
+}
+
+// Returns [east, north] in metres on `grid`. The inverse of CHToWGS, for
+// turning a clicked map position into a radar grid cell.
+export function WGSToCH(
+    lat: number,
+    lng: number,
+    grid: SwissGrid,
+    accuracy: ProjectionAccuracy = 'approximate',
+): [number, number] {
+    const [e, n] = accuracy === 'precise' ? preciseFromWGS(lat, lng) : approximateFromWGS(lat, lng);
+    return fromLV95(e, n, grid);
+}
+
+// Approximate formulas: inputs and outputs are in units of 10000" around Bern.
+function approximateToWGS(east: number, north: number): [number, number] {
+    const y = (east - 2600000) / 1000000;
+    const x = (north - 1200000) / 1000000;
+
+    const lng = 2.6779094
+        + 4.728982 * y
+        + 0.791484 * y * x
+        + 0.1306 * y * x * x
+        - 0.0436 * y * y * y;
+    const lat = 16.9023892
+        + 3.238272 * x
+        - 0.270978 * y * y
+        - 0.002528 * x * x
+        - 0.0447 * y * y * x
+        - 0.0140 * x * x * x;
+
+    return [lat * 100 / 36, lng * 100 / 36];
+}
+
+function approximateFromWGS(lat: number, lng: number): [number, number] {
+    const phi = (lat * 3600 - 169028.66) / 10000;
+    const lambda = (lng * 3600 - 26782.5) / 10000;
+
+    const east = 2600072.37
+        + 211455.93 * lambda
+        - 10938.51 * lambda * phi
+        - 0.36 * lambda * phi * phi
+        - 44.54 * lambda * lambda * lambda;
+    const north = 1200147.07
+        + 308807.95 * phi
+        + 3745.25 * lambda * lambda
+        + 76.63 * phi * phi
+        - 194.56 * lambda * lambda * phi
+        + 119.79 * phi * phi * phi;
+
+    return [east, north];
+}
+
+// Rigorous projection constants (Bessel 1841 ellipsoid, origin at the old
+// Bern observatory).
+const BESSEL_A = 6377397.155;
+const BESSEL_E2 = 0.006674372230614;
+const BESSEL_E = Math.sqrt(BESSEL_E2);
+const PHI0 = degrees(46, 57, 8.66);
+const LAMBDA0 = degrees(7, 26, 22.5);
+const SPHERE_R = BESSEL_A * Math.sqrt(1 - BESSEL_E2) / (1 - BESSEL_E2 * Math.sin(PHI0) ** 2);
+const ALPHA = Math.sqrt(1 + BESSEL_E2 / (1 - BESSEL_E2) * Math.cos(PHI0) ** 4);
+const B0 = Math.asin(Math.sin(PHI0) / ALPHA);
+const K = Math.log(Math.tan(Math.PI / 4 + B0 / 2))
+    - ALPHA * Math.log(Math.tan(Math.PI / 4 + PHI0 / 2))
+    + ALPHA * BESSEL_E / 2 * Math.log((1 + BESSEL_E * Math.sin(PHI0)) / (1 - BESSEL_E * Math.sin(PHI0)));
+
+// CH1903+ -> WGS84 is a plain geocentric translation.
+const DATUM_SHIFT = [674.374, 15.056, 405.346] as const;
+const WGS84_A = 6378137;
+const WGS84_E2 = 0.00669438002290;
+
+function preciseToWGS(east: number, north: number): [number, number] {
+    // Swiss grid -> sphere
+    const lBar = (east - 2600000) / SPHERE_R;
+    const bBar = 2 * (Math.atan(Math.exp((north - 1200000) / SPHERE_R)) - Math.PI / 4);
+
+    // Oblique sphere -> equatorial sphere
+    const b = Math.asin(Math.cos(B0) * Math.sin(bBar) + Math.sin(B0) * Math.cos(bBar) * Math.cos(lBar));
+    const l = Math.atan(Math.sin(lBar) / (Math.cos(B0) * Math.cos(lBar) - Math.sin(B0) * Math.tan(bBar)));
+
+    // Sphere -> Bessel ellipsoid; latitude has no closed form.
+    const lambda = LAMBDA0 + l / ALPHA;
+    let phi = b;
+    for (let i = 0; i < 10; i++) {
+        const s = (Math.log(Math.tan(Math.PI / 4 + b / 2)) - K) / ALPHA
+            + BESSEL_E * Math.log(Math.tan(Math.PI / 4 + Math.asin(BESSEL_E * Math.sin(phi)) / 2));
+        const next = 2 * Math.atan(Math.exp(s)) - Math.PI / 2;
+        const done = Math.abs(next - phi) < 1e-12;
+        phi = next;
+        if (done) break;
+    }
+
+    // Bessel -> WGS84 through geocentric coordinates.
+    const [x, y, z] = toGeocentric(phi, lambda, BESSEL_A, BESSEL_E2);
+    const [lat, lng] = fromGeocentric(x + DATUM_SHIFT[0], y + DATUM_SHIFT[1], z + DATUM_SHIFT[2], WGS84_A, WGS84_E2);
+    return [toDegrees(lat), toDegrees(lng)];
+}
+
+function preciseFromWGS(lat: number, lng: number): [number, number] {
+    const [x, y, z] = toGeocentric(toRadians(lat), toRadians(lng), WGS84_A, WGS84_E2);
+    const [phi, lambda] = fromGeocentric(
+        x - DATUM_SHIFT[0], y - DATUM_SHIFT[1], z - DATUM_SHIFT[2], BESSEL_A, BESSEL_E2
+    );
+
+    // Bessel ellipsoid -> sphere
+    const s = ALPHA * Math.log(Math.tan(Math.PI / 4 + phi / 2))
+        - ALPHA * BESSEL_E / 2 * Math.log((1 + BESSEL_E * Math.sin(phi)) / (1 - BESSEL_E * Math.sin(phi)))
+        + K;
+    const b = 2 * (Math.atan(Math.exp(s)) - Math.PI / 4);
+    const l = ALPHA * (lambda - LAMBDA0);
+
+    // Equatorial sphere -> oblique sphere
+    const lBar = Math.atan(Math.sin(l) / (Math.sin(B0) * Math.tan(b) + Math.cos(B0) * Math.cos(l)));
+    const bBar = Math.asin(Math.cos(B0) * Math.sin(b) - Math.sin(B0) * Math.cos(b) * Math.cos(l));
+
+    // Sphere -> Swiss grid
+    const east = SPHERE_R * lBar + 2600000;
+    const north = SPHERE_R / 2 * Math.log((1 + Math.sin(bBar)) / (1 - Math.sin(bBar))) + 1200000;
+    return [east, north];
+}
+
+// Heights are taken as zero on both ellipsoids: the horizontal error that
+// introduces stays in the millimetres for a shift this small.
+function toGeocentric(phi: number, lambda: number, a: number, e2: number): [number, number, number] {
+    const n = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+    return [
+        n * Math.cos(phi) * Math.cos(lambda),
+        n * Math.cos(phi) * Math.sin(lambda),
+        n * (1 - e2) * Math.sin(phi),
+    ];
+}
+
+function fromGeocentric(x: number, y: number, z: number, a: number, e2: number): [number, number] {
+    const p = Math.hypot(x, y);
+    const lambda = Math.atan2(y, x);
+
+    let phi = Math.atan2(z, p * (1 - e2));
+    for (let i = 0; i < 10; i++) {
+        const n = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+        const h = p / Math.cos(phi) - n;
+        const next = Math.atan2(z, p * (1 - e2 * n / (n + h)));
+        const done = Math.abs(next - phi) < 1e-12;
+        phi = next;
+        if (done) break;
+    }
+    return [phi, lambda];
+}
+
+function degrees(d: number, m: number, s: number): number {
+    return toRadians(d + m / 60 + s / 3600);
+}
+
+function toRadians(deg: number): number {
+    return deg * Math.PI / 180;
+}
+
+function toDegrees(rad: number): number {
+    return rad * 180 / Math.PI;
+}
@@ -0,0 +1,123 @@
+import { MeteoSwissRadarFrame } from './meteoswiss-api';
+import { MeteoSwissRadarJSON } from './decoder';
+import { ARCHIVE_META_STORE, ARCHIVE_STORE, complete, openDatabase, request } from './idb';
+
+// 72 h of observed frames at one per 5 minutes is ~860 frames, ~15 MB.
+export const MAX_ARCHIVE_HOURS = 72;
+
+interface ArchivedFrame {
+    source: string;
+    radar_url: string;
+    data: MeteoSwissRadarJSON;
+}
+
+interface ArchivedFrameMeta {
+    source: string;
+    timestamp: number;
+    radar_url: string;
+}
+
+// animation.json only ever lists the current window (a few hours of observed
+// radar plus the forecast), so a storm that has slid out of it is gone from
+// MeteoSwiss' side. This keeps every observed frame the card has loaded for
+// up to `retentionHours`, so it can be replayed afterwards.
+//
+// Separate from PersistentFrameCache, which deliberately forgets frames as
+// soon as they leave the window and is budgeted by size rather than by age.
+// Forecast frames are never archived: they are superseded, not history.
+export class RadarArchive {
+    private retentionHours = 0;
+    // Frames known to be archived already, so the frame store can offer every
+    // frame it loads without each one costing a write.
+    private recorded = new Set<string>();
+
+    constructor(private readonly source: string) {}
+
+    get enabled(): boolean {
+        return this.retentionHours > 0;
+    }
+
+    // Cards sharing a store may ask for different spans; keep the longest.
+    retain(hours: number): void {
+        this.retentionHours = Math.min(MAX_ARCHIVE_HOURS, Math.max(this.retentionHours, hours));
+    }
+
+    async record(frame: MeteoSwissRadarFrame, data: MeteoSwissRadarJSON): Promise<void> {
+        if (!this.enabled || frame.kind !== 'observed' || frame.timestamp < this.cutoff()) return;
+        if (this.recorded.has(frame.radar_url)) return;
+
+        const db = await openDatabase();
+        if (!db) return;
+
+        try {
+            const tx = db.transaction([ARCHIVE_STORE, ARCHIVE_META_STORE], 'readwrite');
+            // Archived by an earlier page load: frames never change, so there
+            // is nothing to rewrite.
+            const held = await request<number>(tx.objectStore(ARCHIVE_STORE).count([this.source, frame.radar_url]));
+            if (!held) {
+                tx.objectStore(ARCHIVE_STORE).put({ source: this.source, radar_url: frame.radar_url, data } as ArchivedFrame);
+                tx.objectStore(ARCHIVE_META_STORE).put({
+                    source: this.source,
+                    timestamp: frame.timestamp,
+                    radar_url: frame.radar_url,
+                } as ArchivedFrameMeta);
+            }
+
+            // Expire by age in the same transaction, so the archive never
+            // outgrows its window however long the dashboard stays open.
+            const expired = await request<ArchivedFrameMeta[]>(
+                tx.objectStore(ARCHIVE_META_STORE).getAll(
+                    IDBKeyRange.bound([this.source, -Infinity], [this.source, this.cutoff()], false, true)
+                )
+            );
+            expired.forEach(meta => {
+                tx.objectStore(ARCHIVE_STORE).delete([meta.source, meta.radar_url]);
+                tx.objectStore(ARCHIVE_META_STORE).delete([meta.source, meta.timestamp]);
+                this.recorded.delete(meta.radar_url);
+            });
+            await complete(tx);
+            this.recorded.add(frame.radar_url);
+        } catch (e) {
+            console.warn('Radar archive write failed', e);
+        }
+    }
+
+    // Archived frames no older than `since` (seconds), oldest first.
+    async listFrames(since: number): Promise<MeteoSwissRadarFrame[]> {
+        const db = await openDatabase();
+        if (!db) return [];
+
+        try {
+            const metas = await request<ArchivedFrameMeta[]>(
+                db.transaction(ARCHIVE_META_STORE, 'readonly').objectStore(ARCHIVE_META_STORE).getAll(
+                    IDBKeyRange.bound([this.source, Math.max(since, this.cutoff())], [this.source, Infinity])
+                )
+            );
+            return metas.map(meta => ({ timestamp: meta.timestamp, radar_url: meta.radar_url, kind: 'observed' }));
+        } catch (e) {
+            console.warn('Radar archive read failed', e);
+            return [];
+        }
+    }
+
+    async get(radarUrl: string): Promise<MeteoSwissRadarJSON | undefined> {
+        if (!this.enabled) return undefined;
+
+        const db = await openDatabase();
+        if (!db) return undefined;
+
+        try {
+            const stored = await request<ArchivedFrame | undefined>(
+                db.transaction(ARCHIVE_STORE, 'readonly').objectStore(ARCHIVE_STORE).get([this.source, radarUrl])
+            );
+            return stored?.data;
+        } catch (e) {
+            console.warn('Radar archive read failed', e);
+            return undefined;
+        }
+    }
+
+    private cutoff(): number {
+        return Date.now() / 1000 - this.retentionHours * 3600;
+    }
+}
@@ -0,0 +1,107 @@
+import { HomeAssistantAuth, MeteoSwissAPI, MeteoSwissRadarFrame } from './meteoswiss-api';
+import { MeteoSwissRadarJSON } from './decoder';
+import { RadarPalette } from './palette';
+
+// Everything the card needs from wherever its radar comes from. MeteoSwissAPI
+// is the default; a local file mirror, recorded fixtures or a private backend
+// only have to produce the same frame list and frame JSON.
+export interface RadarDataSource {
+    // Every frame currently in the animation window, oldest first.
+    listFrames(): Promise<MeteoSwissRadarFrame[]>;
+
+    // Sources should honour `signal` where they can: the card aborts fetches
+    // for frames the user has scrubbed past.
+    fetchFrame(frame: MeteoSwissRadarFrame, signal?: AbortSignal): Promise<MeteoSwissRadarJSON>;
+
+    // The intensity bands frame colours are snapped onto and the legend shows.
+    describePalette(): RadarPalette;
+
+    // Optional: lets the card tell the user it is waiting out a rate limit
+    // instead of showing a hard error.
+    setRetryListener?(listener: RetryListener): void;
+
+    // Optional: called with Home Assistant's auth object whenever the card
+    // receives a new `hass`, for sources that talk to Home Assistant.
+    setHomeAssistantAuth?(auth: HomeAssistantAuth | undefined): void;
+
+    // Optional: short label -> value pairs for the card's `debug` readout.
+    getDebugInfo?(): Record<string, string>;
+}
+
+// A request failed in a way that is worth repeating, and the source is
+// waiting `delayMs` before the next attempt.
+export interface RetryState {
+    attempt: number;
+    // HTTP status of the failed attempt; undefined for a network error.
+    status?: number;
+    delayMs: number;
+    // When the next attempt goes out (epoch ms), for counting down to it.
+    retryAt: number;
+}
+
+// Called with the latest state of any request that is backing off, and with
+// undefined once none is waiting to retry any more.
+export type RetryListener = (state: RetryState | undefined) => void;
+
+// Factories receive the full card config, so a custom source can read its own
+// options (a mirror URL, a fixture name, ...) straight from the card YAML.
+export interface RadarDataSourceConfig {
+    proxy_url?: string | string[];
+    proxy_mode?: ProxyMode;
+    ha_proxy_path?: string;
+    proxy_headers?: Record<string, string>;
+    proxy_token?: string;
+    [key: string]: unknown;
+}
+
+export type RadarDataSourceFactory = (config: RadarDataSourceConfig) => RadarDataSource;
+
+declare global {
+    interface Window {
+        meteoSwissRadarDataSources?: Record<string, RadarDataSourceFactory>;
+    }
+}
+
+export const DEFAULT_DATA_SOURCE = 'meteoswiss';
+
+// How the built-in source reaches MeteoSwiss: through a CORS proxy (the shared
+// public one, or `proxy_url`), or through the Home Assistant instance itself.
+export const PROXY_MODES = ['cors', 'home_assistant'] as const;
+export type ProxyMode = (typeof PROXY_MODES)[number];
+
+export const DEFAULT_HA_PROXY_PATH = '/api/meteoswiss';
+
+const BUILT_IN_SOURCES: Record<string, RadarDataSourceFactory> = {
+    meteoswiss: config => {
+        const api = new MeteoSwissAPI();
+        api.setProxyUrl(config.proxy_url);
+        api.setProxyHeaders({
+            ...config.proxy_headers,
+            // Shorthand for the common case of a bearer-token protected worker.
+            ...(config.proxy_token ? { 'Authorization': `Bearer ${config.proxy_token}` } : {}),
+        });
+        if (config.proxy_mode === 'home_assistant') {
+            api.setHomeAssistantProxy(config.ha_proxy_path ?? DEFAULT_HA_PROXY_PATH);
+        }
+        return api;
+    },
+};
+
+// Registered on window rather than kept module-private so a source shipped as
+// a separate dashboard resource can add itself without importing this bundle.
+export function registerRadarDataSource(type: string, factory: RadarDataSourceFactory): void {
+    window.meteoSwissRadarDataSources = window.meteoSwissRadarDataSources || {};
+    window.meteoSwissRadarDataSources[type] = factory;
+}
+
+export function createRadarDataSource(type: string, config: RadarDataSourceConfig): RadarDataSource {
+    const factory = BUILT_IN_SOURCES[type] ?? window.meteoSwissRadarDataSources?.[type];
+    if (!factory) {
+        const known = [...Object.keys(BUILT_IN_SOURCES), ...Object.keys(window.meteoSwissRadarDataSources ?? {})];
+        throw new Error(
+            `Unknown data_source "${type}". Expected one of: ${known.join(', ')}. ` +
+            'Custom sources must be registered before the card is configured.'
+        );
+    }
+    return factory(config);
+}
@@ -0,0 +1,218 @@
+import * as L from 'leaflet';
+import { DecodedFrame } from './decoder';
+import { RadarPalette } from './palette';
+import { CanvasPainter, PaintedFrame, RadarPainter, RadarRenderer } from './radar-painter';
+import { WebGLPainter } from './webgl-painter';
+
+// Matches the fill opacity the radar was drawn with as GeoJSON. Applied to
+// the whole canvas; painters paint opaque.
+const RADAR_OPACITY = 0.7;
+
+// Leaflet keeps this one private, but its own image overlays rely on it to
+// follow zoom animations.
+interface ZoomAnimatedMap extends L.Map {
+    _latLngToNewLayerPoint(latlng: L.LatLng, zoom: number, center: L.LatLng): L.Point;
+}
+
+// The radar as one long-lived canvas covering the map viewport. Changing
+// frame repaints it in place instead of swapping Leaflet layers, so the 1 fps
+// animation creates no DOM nodes, and the old frame stays up until the new
+// one is painted (no flicker).
+//
+// Like Leaflet's own canvas renderer, the canvas rides along with the map
+// pane while panning, is scaled by CSS during zoom animations, and is
+// repainted for the new view once the map settles.
+//
+// The painting itself is left to a RadarPainter: the 2D canvas one, or the
+// WebGL one when asked for and the browser can run it.
+//
+// With a crossfade set, every frame change (playback, scrubbing, a refresh
+// jumping to the newest frame) blends the outgoing frame into the incoming
+// one over that many milliseconds, repainting on each animation frame.
+export class RadarLayer extends L.Layer {
+    private canvas?: HTMLCanvasElement;
+    private painter?: RadarPainter;
+    private renderer: RadarRenderer;
+    private frame?: DecodedFrame;
+    private palette?: RadarPalette;
+    // Where the canvas' top left corner was when last painted.
+    private paintedTopLeft?: L.LatLng;
+    private paintedZoom = 0;
+    // A frame change mid zoom animation must not undo the CSS scaling.
+    private zooming = false;
+    private crossfadeMs = 0;
+    private fade?: { from: DecodedFrame; start: number; handle: number };
+
+    constructor(renderer: RadarRenderer = 'canvas') {
+        super();
+        this.renderer = renderer;
+    }
+
+    // The renderer actually painting: 'canvas' after a WebGL fallback.
+    get activeRenderer(): RadarRenderer | undefined {
+        return this.painter?.renderer;
+    }
+
+    setRenderer(renderer: RadarRenderer): this {
+        if (renderer === this.renderer) return this;
+        this.renderer = renderer;
+        if (this._map) {
+            this.replaceCanvas(this._map, renderer);
+            this.redraw();
+        }
+        return this;
+    }
+
+    // 0 switches frames instantly.
+    setCrossfade(ms: number): this {
+        this.crossfadeMs = ms;
+        if (!ms) this.stopFade();
+        return this;
+    }
+
+    setFrame(frame: DecodedFrame | undefined, palette: RadarPalette): this {
+        // Changing frame mid fade starts over from whichever frame is showing
+        // most, so quick scrubbing does not flash back to an older one.
+        const from = this.fade && this.fadeProgress() < 0.5 ? this.fade.from : this.frame;
+        this.stopFade();
+        this.frame = frame;
+        this.palette = palette;
+
+        if (this.crossfadeMs > 0 && this._map && from && frame && from !== frame) {
+            this.fade = { from, start: performance.now(), handle: requestAnimationFrame(() => this.stepFade()) };
+        }
+        this.redraw();
+        return this;
+    }
+
+    onAdd(map: L.Map): this {
+        this.replaceCanvas(map, this.renderer);
+        this.redraw();
+        return this;
+    }
+
+    onRemove(): this {
+        this.stopFade();
+        this.painter?.dispose();
+        this.painter = undefined;
+        this.canvas?.remove();
+        this.canvas = undefined;
+        return this;
+    }
+
+    getEvents(): { [name: string]: L.LeafletEventHandlerFn } {
+        return {
+            moveend: () => this.redraw(),
+            viewreset: () => this.redraw(),
+            resize: () => this.redraw(),
+            zoomanim: event => this.animateZoom(event as L.ZoomAnimEvent),
+            zoomend: () => {
+                this.zooming = false;
+            },
+        };
+    }
+
+    redraw(): void {
+        const map = this._map;
+        const canvas = this.canvas;
+        if (!map || !canvas || this.zooming) return;
+
+        const size = map.getSize();
+        const ratio = window.devicePixelRatio || 1;
+        const width = Math.round(size.x * ratio);
+        const height = Math.round(size.y * ratio);
+        if (canvas.width !== width || canvas.height !== height) {
+            canvas.width = width;
+            canvas.height = height;
+            canvas.style.width = `${size.x}px`;
+            canvas.style.height = `${size.y}px`;
+        }
+
+        // Pinned to the viewport's top left in the (panning) map pane.
+        L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+        this.paintedTopLeft = map.containerPointToLatLng([0, 0]);
+        this.paintedZoom = map.getZoom();
+
+        const view = { map, width: size.x, height: size.y, ratio };
+        const painter = this.painter;
+        if (painter && !painter.paint(this.paintedFrames(), this.palette, view) && painter.renderer !== 'canvas') {
+            // A canvas keeps the context it was first asked for, so falling
+            // back takes a new one.
+            this.replaceCanvas(map, 'canvas');
+            this.redraw();
+        }
+    }
+
+    private paintedFrames(): PaintedFrame[] {
+        if (!this.frame) return [];
+        if (!this.fade) return [{ frame: this.frame, weight: 1 }];
+
+        const progress = this.fadeProgress();
+        return [
+            { frame: this.fade.from, weight: 1 - progress },
+            { frame: this.frame, weight: progress },
+        ];
+    }
+
+    private fadeProgress(): number {
+        return this.fade ? Math.min(1, (performance.now() - this.fade.start) / this.crossfadeMs) : 1;
+    }
+
+    private stepFade(): void {
+        if (!this.fade) return;
+        if (this.fadeProgress() < 1) {
+            this.fade.handle = requestAnimationFrame(() => this.stepFade());
+        } else {
+            this.fade = undefined;
+        }
+        this.redraw();
+    }
+
+    private stopFade(): void {
+        if (this.fade) cancelAnimationFrame(this.fade.handle);
+        this.fade = undefined;
+    }
+
+    // A fresh canvas with a painter for `renderer`, or the canvas painter when
+    // WebGL cannot be set up. Takes the old canvas' place in the pane.
+    private replaceCanvas(map: L.Map, renderer: RadarRenderer): void {
+        this.painter?.dispose();
+        this.canvas?.remove();
+
+        let canvas = this.createCanvas(map);
+        let painter: RadarPainter | undefined;
+        if (renderer === 'webgl') {
+            try {
+                painter = new WebGLPainter(canvas);
+            } catch (error) {
+                console.warn('MeteoSwiss radar: WebGL renderer unavailable, using canvas.', error);
+                canvas = this.createCanvas(map);
+            }
+        }
+
+        this.canvas = canvas;
+        this.painter = painter ?? new CanvasPainter(canvas);
+        this.getPane()?.appendChild(canvas);
+    }
+
+    private createCanvas(map: L.Map): HTMLCanvasElement {
+        const canvas = L.DomUtil.create('canvas', 'meteoswiss-radar-layer') as HTMLCanvasElement;
+        canvas.style.position = 'absolute';
+        canvas.style.pointerEvents = 'none';
+        canvas.style.opacity = String(RADAR_OPACITY);
+        if (map.options.zoomAnimation) L.DomUtil.addClass(canvas, 'leaflet-zoom-animated');
+        return canvas;
+    }
+
+    // Scale what is painted towards the zoom target while Leaflet animates,
+    // as L.ImageOverlay does; moveend repaints it sharp.
+    private animateZoom(event: L.ZoomAnimEvent): void {
+        if (!this.canvas || !this.paintedTopLeft) return;
+        this.zooming = true;
+
+        const map = this._map as ZoomAnimatedMap;
+        const scale = map.getZoomScale(event.zoom, this.paintedZoom);
+        const offset = map._latLngToNewLayerPoint(this.paintedTopLeft, event.zoom, event.center);
+        L.DomUtil.setTransform(this.canvas, offset, scale);
+    }
+}
@@ -0,0 +1,116 @@
+import * as L from 'leaflet';
+import { DecodedArea, DecodedFrame } from './decoder';
+import { matchBand, RadarPalette } from './palette';
+
+export const RADAR_RENDERERS = ['canvas', 'webgl'] as const;
+export type RadarRenderer = (typeof RADAR_RENDERERS)[number];
+
+// The map view a painter draws for, in CSS pixels. The canvas itself is
+// `ratio` times larger, for sharp output on high density screens.
+export interface RadarView {
+    map: L.Map;
+    width: number;
+    height: number;
+    ratio: number;
+}
+
+// A frame and its share of the painted image: 1 normally, and while
+// crossfading the outgoing and incoming frames' shares add up to 1.
+export interface PaintedFrame {
+    frame: DecodedFrame;
+    weight: number;
+}
+
+// Draws decoded frames onto RadarLayer's canvas. The layer owns the canvas
+// and keeps it lined up with the map; a painter only fills it.
+//
+// Painters paint opaque; the layer makes the whole canvas translucent. Each
+// frame is flattened before it is blended by weight, so where both frames of
+// a crossfade have rain it stays exactly as strong throughout.
+export interface RadarPainter {
+    readonly renderer: RadarRenderer;
+    // false: this painter can no longer draw (e.g. a lost WebGL context), and
+    // the layer should fall back to another one on a fresh canvas.
+    paint(frames: PaintedFrame[], palette: RadarPalette | undefined, view: RadarView): boolean;
+    dispose(): void;
+}
+
+export class CanvasPainter implements RadarPainter {
+    readonly renderer = 'canvas';
+    private readonly ctx: CanvasRenderingContext2D | null;
+    // Where each frame of a crossfade is flattened before being blended in.
+    private scratch?: CanvasRenderingContext2D | null;
+
+    constructor(canvas: HTMLCanvasElement) {
+        this.ctx = canvas.getContext('2d');
+    }
+
+    paint(frames: PaintedFrame[], palette: RadarPalette | undefined, view: RadarView): boolean {
+        const ctx = this.ctx;
+        if (!ctx) return false;
+
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+        if (!palette) return true;
+
+        if (frames.length === 1 && frames[0].weight === 1) {
+            paintFrame(ctx, frames[0].frame, palette, view);
+            return true;
+        }
+
+        if (this.scratch === undefined) this.scratch = document.createElement('canvas').getContext('2d');
+        const scratch = this.scratch;
+        if (!scratch) return false;
+        scratch.canvas.width = ctx.canvas.width;
+        scratch.canvas.height = ctx.canvas.height;
+
+        // "lighter" adds: the canvas ends up as the weighted sum of the frames.
+        ctx.globalCompositeOperation = 'lighter';
+        frames.forEach(({ frame, weight }) => {
+            scratch.setTransform(1, 0, 0, 1, 0, 0);
+            scratch.clearRect(0, 0, scratch.canvas.width, scratch.canvas.height);
+            paintFrame(scratch, frame, palette, view);
+
+            ctx.globalAlpha = weight;
+            ctx.drawImage(scratch.canvas, 0, 0);
+        });
+        ctx.globalAlpha = 1;
+        ctx.globalCompositeOperation = 'source-over';
+        return true;
+    }
+
+    dispose(): void {
+        this.scratch = undefined;
+    }
+}
+
+function paintFrame(ctx: CanvasRenderingContext2D, frame: DecodedFrame, palette: RadarPalette, view: RadarView): void {
+    ctx.setTransform(view.ratio, 0, 0, view.ratio, 0, 0);
+    frame.areas.forEach(area => {
+        ctx.fillStyle = matchBand(palette, area.color)?.color ?? area.color;
+        ctx.beginPath();
+        tracePolygons(ctx, view.map, area);
+        // Holes are cut out whichever way MeteoSwiss winds the rings.
+        ctx.fill('evenodd');
+    });
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+}
+
+function tracePolygons(ctx: CanvasRenderingContext2D, map: L.Map, area: DecodedArea): void {
+    const { coordinates, rings } = area;
+    const latLng = L.latLng(0, 0);
+
+    for (let r = 0; r < rings.length - 1; r++) {
+        for (let i = rings[r]; i < rings[r + 1]; i++) {
+            latLng.lat = coordinates[i * 2];
+            latLng.lng = coordinates[i * 2 + 1];
+            const point = map.latLngToContainerPoint(latLng);
+            if (i === rings[r]) {
+                ctx.moveTo(point.x, point.y);
+            } else {
+                ctx.lineTo(point.x, point.y);
+            }
+        }
+        ctx.closePath();
+    }
+}
@@ -0,0 +1,74 @@
+import { PointIntensity } from './point-query';
+import { RadarBand } from './palette';
+
+// What the rest of the window says for one spot, relative to the frame that
+// is "now" (the last one not in the future):
+// - starting:   dry now, rain from `at`
+// - ending:     raining now, dry from `at`
+// - continuing: raining now and until the end of the window at `until`
+// - dry:        dry now and until the end of the window at `until`
+export type RainOutlook =
+    | { kind: 'starting'; at: number; band: RadarBand }
+    | { kind: 'ending'; at: number }
+    | { kind: 'continuing'; until: number }
+    | { kind: 'dry'; until: number };
+
+// The frame that is "now": the last one not in the future, of frames oldest
+// first. -1 when the whole window lies ahead.
+export function currentFrameIndex(frames: Array<{ timestamp: number }>, now: number): number {
+    for (let index = frames.length - 1; index >= 0; index--) {
+        if (frames[index].timestamp <= now) return index;
+    }
+    return -1;
+}
+
+// `timeline` is one spot's intensity for every frame, oldest first; `now` is
+// in seconds. undefined when the window has nothing after now to go on.
+export function rainOutlook(timeline: PointIntensity[], now: number): RainOutlook | undefined {
+    const current = currentFrameIndex(timeline, now);
+    if (current < 0 || current === timeline.length - 1) return undefined;
+
+    const raining = Boolean(timeline[current].band);
+    const ahead = timeline.slice(current + 1);
+    const change = ahead.find(point => Boolean(point.band) !== raining);
+    const end = timeline[timeline.length - 1].timestamp;
+
+    if (raining) {
+        return change ? { kind: 'ending', at: change.timestamp } : { kind: 'continuing', until: end };
+    }
+    return change?.band ? { kind: 'starting', at: change.timestamp, band: change.band } : { kind: 'dry', until: end };
+}
+
+// The next spell of rain at the spot: the one under way now, else the next
+// one to start. `end` is undefined when it lasts past the end of the window.
+export interface RainSpell {
+    start: number;
+    end?: number;
+    ongoing: boolean;
+}
+
+export function nextRainSpell(timeline: PointIntensity[], now: number): RainSpell | undefined {
+    const current = currentFrameIndex(timeline, now);
+
+    const from = Math.max(0, current);
+    const startIndex = timeline.findIndex((point, index) => index >= from && point.band);
+    if (startIndex < 0) return undefined;
+
+    const end = timeline.find((point, index) => index > startIndex && !point.band);
+    return {
+        start: timeline[startIndex].timestamp,
+        end: end?.timestamp,
+        ongoing: startIndex === current,
+    };
+}
+
+// The strongest point of the timeline; the earliest if the peak repeats.
+export function peakIntensity(timeline: PointIntensity[], bands: RadarBand[]): PointIntensity | undefined {
+    let peak: PointIntensity | undefined;
+    timeline.forEach(point => {
+        if (point.band && (!peak?.band || bands.indexOf(point.band) > bands.indexOf(peak.band))) {
+            peak = point;
+        }
+    });
+    return peak;
+}
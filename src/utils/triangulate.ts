@@ -0,0 +1,54 @@
+import earcut from 'earcut';
+import { DecodedFrame } from './decoder';
+
+// Vertices are in Web Mercator world units (the whole world is 0..1)
+// relative to a point in Switzerland. Float32 cannot hold absolute world
+// coordinates to the sub-pixel precision high zoom levels need; small
+// offsets from here it can.
+export const MERCATOR_ORIGIN = mercator(46.8, 8.2);
+
+// One draw call: `count` vertices from `first`, filled in `color`.
+export interface TriangleDraw {
+    color: string;
+    first: number;
+    count: number;
+}
+
+export interface TriangulatedFrame {
+    // x, y of every triangle corner, three corners per triangle.
+    vertices: Float32Array;
+    // One per area, in frame order, as the canvas painter fills them.
+    draws: TriangleDraw[];
+}
+
+// A decoded frame as triangles, ready to upload as one vertex buffer. Holes
+// are cut out by earcut, so nothing is drawn over the dry pockets.
+export function triangulateFrame(frame: DecodedFrame): TriangulatedFrame {
+    const vertices: number[] = [];
+    const draws: TriangleDraw[] = [];
+
+    frame.areas.forEach(area => {
+        const first = vertices.length / 2;
+        for (let p = 0; p < area.polygons.length - 1; p++) {
+            const flat: number[] = [];
+            const holes: number[] = [];
+            for (let r = area.polygons[p]; r < area.polygons[p + 1]; r++) {
+                if (r > area.polygons[p]) holes.push(flat.length / 2);
+                for (let i = area.rings[r]; i < area.rings[r + 1]; i++) {
+                    const [x, y] = mercator(area.coordinates[i * 2], area.coordinates[i * 2 + 1]);
+                    flat.push(x - MERCATOR_ORIGIN[0], y - MERCATOR_ORIGIN[1]);
+                }
+            }
+            earcut(flat, holes, 2).forEach(index => vertices.push(flat[index * 2], flat[index * 2 + 1]));
+        }
+        draws.push({ color: area.color, first, count: vertices.length / 2 - first });
+    });
+
+    return { vertices: new Float32Array(vertices), draws };
+}
+
+// Web Mercator as Leaflet's EPSG:3857, scaled to world units.
+export function mercator(lat: number, lng: number): [number, number] {
+    const sin = Math.sin(lat * Math.PI / 180);
+    return [(lng + 180) / 360, 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)];
+}
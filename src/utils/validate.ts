@@ -0,0 +1,134 @@
+import { MeteoSwissAnimationData, MeteoSwissVersions } from './meteoswiss-api';
+import { MeteoSwissRadarJSON } from './decoder';
+import { parseSwissGrid } from './projection';
+
+// MeteoSwiss' JSON is undocumented and has changed before. Checking its shape
+// on arrival turns a silent blank map (or a TypeError deep inside decodeShape)
+// into an error that says exactly which field moved.
+export class RadarFormatError extends Error {
+    constructor(readonly payload: string, readonly path: string, readonly problem: string) {
+        super(`Unexpected ${payload} format: ${path} ${problem}`);
+        this.name = 'RadarFormatError';
+    }
+}
+
+type Check = (value: unknown, path: string) => void;
+
+// Collects the payload name so every helper can throw a complete error.
+class Validator {
+    constructor(private readonly payload: string) {}
+
+    fail(path: string, problem: string): never {
+        throw new RadarFormatError(this.payload, path, problem);
+    }
+
+    object(value: unknown, path: string): Record<string, unknown> {
+        if (value === undefined || value === null) this.fail(path, 'missing');
+        if (typeof value !== 'object' || Array.isArray(value)) this.fail(path, 'is not an object');
+        return value as Record<string, unknown>;
+    }
+
+    array(value: unknown, path: string, each?: Check): unknown[] {
+        if (value === undefined || value === null) this.fail(path, 'missing');
+        if (!Array.isArray(value)) this.fail(path, 'is not an array');
+        if (each) value.forEach((item, index) => each(item, `${path}[${index}]`));
+        return value;
+    }
+
+    number(value: unknown, path: string): void {
+        if (value === undefined || value === null) this.fail(path, 'missing');
+        if (typeof value !== 'number' || !Number.isFinite(value)) this.fail(path, 'is not a number');
+    }
+
+    string(value: unknown, path: string): void {
+        if (value === undefined || value === null) this.fail(path, 'missing');
+        if (typeof value !== 'string') this.fail(path, 'is not a string');
+    }
+}
+
+// Only the entry the card reads is checked: a format change to some other
+// product's entry must not take the radar down with it.
+export function validateVersions(json: unknown): MeteoSwissVersions {
+    const v = new Validator('versions.json');
+    const versions = v.object(json, 'versions');
+    v.string(versions['precipitation/animation'], 'versions["precipitation/animation"]');
+    return versions as MeteoSwissVersions;
+}
+
+// Deliberately as lenient as the frame list code that consumes it: a day
+// without pictures and a picture without radar_url are skipped there, so they
+// are not format errors here.
+export function validateAnimationData(json: unknown): MeteoSwissAnimationData {
+    const v = new Validator('animation.json');
+    const data = v.object(json, 'animation');
+
+    v.array(data.map_images, 'map_images', (day, dayPath) => {
+        const { pictures } = v.object(day, dayPath);
+        if (pictures === undefined) return;
+
+        v.array(pictures, `${dayPath}.pictures`, (picture, picturePath) => {
+            const { timestamp, radar_url } = v.object(picture, picturePath);
+            v.number(timestamp, `${picturePath}.timestamp`);
+            if (radar_url !== undefined) v.string(radar_url, `${picturePath}.radar_url`);
+        });
+    });
+
+    // Only the legend's colours are optional extras: a legend in an unexpected
+    // shape is dropped (the palette falls back to DEFAULT_PALETTE) rather than
+    // costing the card its whole frame list.
+    if (data.legend !== undefined) {
+        try {
+            validateLegend(v, data.legend);
+        } catch (e) {
+            if (!(e instanceof RadarFormatError)) throw e;
+            console.warn(`MeteoSwiss radar: ignoring the legend. ${e.message}`);
+            return { ...data, legend: undefined } as unknown as MeteoSwissAnimationData;
+        }
+    }
+
+    return data as unknown as MeteoSwissAnimationData;
+}
+
+function validateLegend(v: Validator, legend: unknown): void {
+    const { unit, items } = v.object(legend, 'legend');
+    if (unit !== undefined) v.string(unit, 'legend.unit');
+
+    v.array(items, 'legend.items', (item, itemPath) => {
+        const { color, min, max, label } = v.object(item, itemPath);
+        v.string(color, `${itemPath}.color`);
+        if (min !== undefined) v.number(min, `${itemPath}.min`);
+        if (max !== undefined) v.number(max, `${itemPath}.max`);
+        if (label !== undefined) v.string(label, `${itemPath}.label`);
+    });
+}
+
+export function validateRadarFrame(json: unknown): MeteoSwissRadarJSON {
+    const v = new Validator('radar frame');
+    const frame = v.object(json, 'frame');
+
+    const coords = v.object(frame.coords, 'coords');
+    v.string(coords.system, 'coords.system');
+    // Decides how every coordinate is projected, so guessing would misplace
+    // the whole frame rather than fail visibly.
+    if (!parseSwissGrid(coords.system as string)) {
+        v.fail('coords.system', `"${coords.system}" is not a known Swiss grid`);
+    }
+    ['x_min', 'x_max', 'x_count', 'y_min', 'y_max', 'y_count'].forEach(key => v.number(coords[key], `coords.${key}`));
+
+    v.array(frame.areas, 'areas', (area, areaPath) => {
+        const { color, shapes } = v.object(area, areaPath);
+        v.string(color, `${areaPath}.color`);
+
+        v.array(shapes, `${areaPath}.shapes`, (shape, shapePath) => {
+            v.array(shape, shapePath, (ring, ringPath) => {
+                const { i, j, d, o } = v.object(ring, ringPath);
+                v.number(i, `${ringPath}.i`);
+                v.number(j, `${ringPath}.j`);
+                v.string(d, `${ringPath}.d`);
+                v.string(o, `${ringPath}.o`);
+            });
+        });
+    });
+
+    return frame as unknown as MeteoSwissRadarJSON;
+}
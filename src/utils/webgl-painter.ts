@@ -0,0 +1,166 @@
+import { DecodedFrame } from './decoder';
+import { matchBand, RadarPalette } from './palette';
+import { PaintedFrame, RadarPainter, RadarView } from './radar-painter';
+import { MERCATOR_ORIGIN, TriangleDraw, triangulateFrame } from './triangulate';
+
+// Frames kept uploaded on the GPU: a full animation window, so once every
+// frame has been shown playback only switches buffers.
+const GPU_FRAME_LIMIT = 64;
+
+const VERTEX_SHADER = `
+    attribute vec2 a_position;
+    uniform float u_scale;
+    uniform vec2 u_offset;
+    uniform vec2 u_size;
+
+    void main() {
+        vec2 pixel = a_position * u_scale + u_offset;
+        gl_Position = vec4(pixel.x / u_size.x * 2.0 - 1.0, 1.0 - pixel.y / u_size.y * 2.0, 0.0, 1.0);
+    }
+`;
+
+const FRAGMENT_SHADER = `
+    precision mediump float;
+    uniform vec4 u_color;
+
+    void main() {
+        gl_FragColor = u_color;
+    }
+`;
+
+interface GpuFrame {
+    buffer: WebGLBuffer;
+    draws: TriangleDraw[];
+}
+
+// Triangulates each frame once (earcut, holes included), uploads it, and from
+// then on draws it with one call per colour band. Moving the map only changes
+// the uniforms. Far less CPU per frame than filling paths on a 2D canvas,
+// which is what low-power wall tablets run out of.
+export class WebGLPainter implements RadarPainter {
+    readonly renderer = 'webgl';
+    private readonly gl: WebGLRenderingContext;
+    private readonly program: WebGLProgram;
+    private readonly position: number;
+    private readonly uniforms: Record<'scale' | 'offset' | 'size' | 'color', WebGLUniformLocation | null>;
+    // Map order doubles as least recently drawn first.
+    private frames = new Map<DecodedFrame, GpuFrame>();
+    private lost = false;
+
+    // Throws where WebGL is unavailable; the layer then uses the canvas painter.
+    constructor(canvas: HTMLCanvasElement) {
+        const gl = canvas.getContext('webgl', { premultipliedAlpha: true, antialias: true, depth: true });
+        if (!gl) throw new Error('WebGL is not available');
+        this.gl = gl;
+
+        this.program = linkProgram(gl, VERTEX_SHADER, FRAGMENT_SHADER);
+        this.position = gl.getAttribLocation(this.program, 'a_position');
+        this.uniforms = {
+            scale: gl.getUniformLocation(this.program, 'u_scale'),
+            offset: gl.getUniformLocation(this.program, 'u_offset'),
+            size: gl.getUniformLocation(this.program, 'u_size'),
+            color: gl.getUniformLocation(this.program, 'u_color'),
+        };
+
+        canvas.addEventListener('webglcontextlost', () => {
+            this.lost = true;
+        });
+    }
+
+    paint(frames: PaintedFrame[], palette: RadarPalette | undefined, view: RadarView): boolean {
+        const gl = this.gl;
+        if (this.lost || gl.isContextLost()) return false;
+
+        gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+        gl.clearColor(0, 0, 0, 0);
+        gl.clearDepth(1);
+        gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+        if (!frames.length || !palette) return true;
+
+        const scale = view.map.options.crs!.scale(view.map.getZoom());
+        const topLeft = view.map.getPixelBounds().min!;
+
+        gl.useProgram(this.program);
+        // Additive: the image is the weighted sum of the frames.
+        gl.enable(gl.BLEND);
+        gl.blendFunc(gl.ONE, gl.ONE);
+        gl.enable(gl.DEPTH_TEST);
+        gl.depthFunc(gl.LESS);
+        gl.uniform1f(this.uniforms.scale, scale);
+        gl.uniform2f(this.uniforms.offset, MERCATOR_ORIGIN[0] * scale - topLeft.x, MERCATOR_ORIGIN[1] * scale - topLeft.y);
+        gl.uniform2f(this.uniforms.size, view.width, view.height);
+        gl.enableVertexAttribArray(this.position);
+
+        frames.forEach(({ frame, weight }) => {
+            const uploaded = this.upload(frame);
+            gl.bindBuffer(gl.ARRAY_BUFFER, uploaded.buffer);
+            gl.vertexAttribPointer(this.position, 2, gl.FLOAT, false, 0, 0);
+
+            // Topmost area first, all at the same depth: the depth test then
+            // lets each pixel be filled once per frame, which flattens the
+            // frame like the canvas painter's scratch canvas does.
+            gl.clear(gl.DEPTH_BUFFER_BIT);
+            for (let d = uploaded.draws.length - 1; d >= 0; d--) {
+                const { color, first, count } = uploaded.draws[d];
+                const [r, g, b] = parseColor(matchBand(palette, color)?.color ?? color);
+                // Premultiplied, as the canvas is.
+                gl.uniform4f(this.uniforms.color, r * weight, g * weight, b * weight, weight);
+                gl.drawArrays(gl.TRIANGLES, first, count);
+            }
+        });
+        return true;
+    }
+
+    dispose(): void {
+        this.frames.forEach(uploaded => this.gl.deleteBuffer(uploaded.buffer));
+        this.frames.clear();
+        this.gl.deleteProgram(this.program);
+    }
+
+    private upload(frame: DecodedFrame): GpuFrame {
+        const existing = this.frames.get(frame);
+        if (existing) {
+            this.frames.delete(frame);
+            this.frames.set(frame, existing);
+            return existing;
+        }
+
+        const { vertices, draws } = triangulateFrame(frame);
+        const gl = this.gl;
+        const buffer = gl.createBuffer()!;
+        gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+        gl.bufferData(gl.ARRAY_BUFFER, vertices, gl.STATIC_DRAW);
+
+        const uploaded = { buffer, draws };
+        this.frames.set(frame, uploaded);
+        for (const [oldest, evicted] of this.frames) {
+            if (this.frames.size <= GPU_FRAME_LIMIT) break;
+            gl.deleteBuffer(evicted.buffer);
+            this.frames.delete(oldest);
+        }
+        return uploaded;
+    }
+}
+
+function linkProgram(gl: WebGLRenderingContext, vertexSource: string, fragmentSource: string): WebGLProgram {
+    const program = gl.createProgram()!;
+    [[gl.VERTEX_SHADER, vertexSource], [gl.FRAGMENT_SHADER, fragmentSource]].forEach(([type, source]) => {
+        const shader = gl.createShader(type as number)!;
+        gl.shaderSource(shader, source as string);
+        gl.compileShader(shader);
+        if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+            throw new Error(`Radar shader failed to compile: ${gl.getShaderInfoLog(shader)}`);
+        }
+        gl.attachShader(program, shader);
+    });
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        throw new Error(`Radar shaders failed to link: ${gl.getProgramInfoLog(program)}`);
+    }
+    return program;
+}
+
+function parseColor(color: string): [number, number, number] {
+    const hex = color.replace('#', '');
+    return [0, 2, 4].map(offset => (parseInt(hex.substr(offset, 2), 16) || 0) / 255) as [number, number, number];
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { decodeFrame, decodePolygon } from '../src/utils/decoder';
+import { validateRadarFrame } from '../src/utils/validate';
+import { cellToLatLng, FRAME_WITH_HOLE } from './fixtures/frame-with-hole';
+
+describe('decodePolygon', () => {
+    it('keeps a hole as its own ring after the outline', () => {
+        const [shape] = FRAME_WITH_HOLE.areas[0].shapes;
+        const polygon = decodePolygon(shape, FRAME_WITH_HOLE.coords)!;
+
+        expect(polygon).toHaveLength(2);
+        expect(polygon[0]).toHaveLength(4);
+        expect(polygon[1]).toHaveLength(4);
+        expect(polygon[0][0][0]).toBeCloseTo(cellToLatLng(50, 70.05)[0], 9);
+        expect(polygon[1][0][0]).toBeCloseTo(cellToLatLng(50, 55.05)[0], 9);
+    });
+
+    it('drops a shape whose outline encloses nothing', () => {
+        const [, degenerate] = FRAME_WITH_HOLE.areas[0].shapes;
+        expect(decodePolygon(degenerate, FRAME_WITH_HOLE.coords)).toBeUndefined();
+    });
+
+    it('drops holes that enclose nothing but keeps the outline', () => {
+        const [shape] = FRAME_WITH_HOLE.areas[1].shapes;
+        expect(decodePolygon(shape, FRAME_WITH_HOLE.coords)).toHaveLength(1);
+    });
+});
+
+describe('decodeFrame', () => {
+    const frame = decodeFrame(validateRadarFrame(FRAME_WITH_HOLE));
+
+    it('decodes one area per colour', () => {
+        expect(frame.areas.map(area => area.color)).toEqual(['#0001fc', '#ff1900']);
+    });
+
+    it('indexes the hole as a second ring of the same polygon', () => {
+        const [area] = frame.areas;
+        expect(Array.from(area.polygons)).toEqual([0, 2]);
+        expect(Array.from(area.rings)).toEqual([0, 4, 8]);
+        expect(area.coordinates).toHaveLength(16);
+
+        const [lat, lng] = cellToLatLng(50, 55.05);
+        expect(area.coordinates[8]).toBeCloseTo(lat, 9);
+        expect(area.coordinates[9]).toBeCloseTo(lng, 9);
+    });
+
+    it('leaves out degenerate rings', () => {
+        const [, area] = frame.areas;
+        expect(Array.from(area.polygons)).toEqual([0, 1]);
+        expect(Array.from(area.rings)).toEqual([0, 4]);
+    });
+});
@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import type { MeteoSwissRadarCardEditor } from '../src/editor';
+import '../src/editor';
+
+async function createEditor(config: object): Promise<{ editor: MeteoSwissRadarCardEditor; configs: any[] }> {
+    const editor = document.createElement('meteoswiss-radar-card-editor') as MeteoSwissRadarCardEditor;
+    const configs: any[] = [];
+    // Home Assistant hands every change straight back through setConfig.
+    editor.addEventListener('config-changed', event => {
+        const { config: changed } = (event as CustomEvent).detail;
+        configs.push(changed);
+        editor.setConfig(changed);
+    });
+    editor.hass = { config: { latitude: 46.95, longitude: 7.44 } };
+    editor.setConfig({ type: 'custom:meteoswiss-radar-card', ...config });
+    document.body.appendChild(editor);
+    await editor.updateComplete;
+    return { editor, configs };
+}
+
+function headerInputs(editor: MeteoSwissRadarCardEditor): HTMLInputElement[][] {
+    return Array.from(editor.shadowRoot!.querySelectorAll('.header-row'))
+        .map(row => Array.from(row.querySelectorAll('input')));
+}
+
+async function type(editor: MeteoSwissRadarCardEditor, input: HTMLInputElement, value: string): Promise<void> {
+    input.value = value;
+    input.dispatchEvent(new Event('change'));
+    await editor.updateComplete;
+}
+
+describe('proxy header rows', () => {
+    afterEach(() => {
+        document.body.innerHTML = '';
+    });
+
+    it('keeps a value typed before its name', async () => {
+        const { editor, configs } = await createEditor({});
+
+        await type(editor, headerInputs(editor)[0][1], 'secret');
+        expect(configs[configs.length - 1].proxy_headers).toBeUndefined();
+        expect(headerInputs(editor)[0][1].value).toBe('secret');
+
+        await type(editor, headerInputs(editor)[0][0], 'X-Api-Key');
+        expect(configs[configs.length - 1].proxy_headers).toEqual({ 'X-Api-Key': 'secret' });
+    });
+
+    it('takes headers changed elsewhere over the rows being edited', async () => {
+        const { editor } = await createEditor({});
+        await type(editor, headerInputs(editor)[0][1], 'draft');
+
+        editor.setConfig({ type: 'custom:meteoswiss-radar-card', proxy_headers: { 'X-Token': 'yaml' } });
+        await editor.updateComplete;
+
+        const rows = headerInputs(editor);
+        expect(rows.map(([name, value]) => [name.value, value.value])).toEqual([['X-Token', 'yaml'], ['', '']]);
+    });
+});
@@ -0,0 +1,63 @@
+import { MeteoSwissRadarJSON, RadarRing } from '../../src/utils/decoder';
+import { CHToWGS } from '../../src/utils/projection';
+
+// A synthetic frame in MeteoSwiss' chain code format, on a 1 km LV95 grid:
+// - area "0001fc": a diamond of rain (20 km radius) around cell (50, 50), with
+//   a dry diamond hole (5 km radius) in its middle, plus a shape whose outline
+//   is only two points long and must be dropped;
+// - area "ff1900": a lone diamond elsewhere, with a two point hole that must be
+//   dropped while the outline is kept.
+const COORDS: MeteoSwissRadarJSON['coords'] = {
+    system: 'LV95',
+    x_min: 2480,
+    x_max: 2840,
+    x_count: 360,
+    y_min: 1060,
+    y_max: 1300,
+    y_count: 240,
+};
+
+// Every vertex here has an even `i`, so it lands at grid x = i / 2 and
+// y = j / 2 + 0.05 (the "o" digit 5 is an offset of 0.55 cells from j - 1).
+function ring(points: Array<[number, number]>): RadarRing {
+    const d = points
+        .map(([i, j], index) => {
+            const [nextI, nextJ] = points[(index + 1) % points.length];
+            return String.fromCharCode(77 + nextI - i, 77 + nextJ - j);
+        })
+        .join('');
+    return { i: points[0][0], j: points[0][1], d, o: '5'.repeat(points.length), l: 0 };
+}
+
+function diamond(centreI: number, centreJ: number, radius: number): RadarRing {
+    return ring([
+        [centreI, centreJ + radius],
+        [centreI + radius, centreJ],
+        [centreI, centreJ - radius],
+        [centreI - radius, centreJ],
+    ]);
+}
+
+export const FRAME_WITH_HOLE: MeteoSwissRadarJSON = {
+    coords: COORDS,
+    areas: [
+        {
+            color: '0001fc',
+            shapes: [
+                [diamond(100, 100, 40), diamond(100, 100, 10)],
+                [ring([[200, 200], [210, 200]])],
+            ],
+        },
+        {
+            color: 'ff1900',
+            shapes: [
+                [diamond(300, 200, 20), ring([[300, 200], [302, 200]])],
+            ],
+        },
+    ],
+};
+
+// [lat, lng] of a point given in grid cells, as the decoder projects it.
+export function cellToLatLng(x: number, y: number): [number, number] {
+    return CHToWGS((COORDS.x_min + x) * 1000, (COORDS.y_min + y) * 1000, 'LV95');
+}
@@ -0,0 +1,44 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MeteoSwissAPI } from '../src/utils/meteoswiss-api';
+
+const NOW = 1760774400; // 2025-10-18 08:00 UTC
+
+function serve(pictures: Array<{ timestamp: number; radar_url: string }>): void {
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => new Response(JSON.stringify(
+        url.endsWith('/versions.json')
+            ? { 'precipitation/animation': '1' }
+            : { map_images: [{ day: 'today', pictures }] }
+    ))));
+}
+
+describe('MeteoSwissAPI.listFrames', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('tells radar and nowcast frames apart by file name', async () => {
+        serve([
+            { timestamp: NOW - 300, radar_url: '/product/output/radar/rzc/radar_rzc.20251018_0755.json' },
+            { timestamp: NOW - 600, radar_url: '/product/output/radar/inca/radar_inca.20251018_0750.json' },
+        ]);
+        const frames = await new MeteoSwissAPI().listFrames();
+        expect(frames.map(frame => frame.kind)).toEqual(['forecast', 'observed']);
+    });
+
+    it('falls back to the clock, with a warning, for unknown file names', async () => {
+        vi.useFakeTimers({ now: NOW * 1000, toFake: ['Date'] });
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        serve([
+            { timestamp: NOW - 300, radar_url: '/product/output/radar/new/radar_new.20251018_0755.json' },
+            { timestamp: NOW + 300, radar_url: '/product/output/radar/new/radar_new.20251018_0805.json' },
+        ]);
+
+        const frames = await new MeteoSwissAPI().listFrames();
+        expect(frames.map(frame => frame.kind)).toEqual(['observed', 'forecast']);
+        expect(warn).toHaveBeenCalledOnce();
+        expect(warn.mock.calls[0][0]).toContain('radar_new.20251018_0755.json');
+    });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { decodeFrame } from '../src/utils/decoder';
+import { DEFAULT_PALETTE } from '../src/utils/palette';
+import { areaContains, queryBand } from '../src/utils/point-query';
+import { cellToLatLng, FRAME_WITH_HOLE } from './fixtures/frame-with-hole';
+
+const frame = decodeFrame(FRAME_WITH_HOLE);
+
+describe('areaContains', () => {
+    const [area] = frame.areas;
+
+    it('is true between the outline and the hole', () => {
+        expect(areaContains(area, ...cellToLatLng(50, 62))).toBe(true);
+        expect(areaContains(area, ...cellToLatLng(40, 50))).toBe(true);
+    });
+
+    it('is false inside the hole', () => {
+        expect(areaContains(area, ...cellToLatLng(50, 50))).toBe(false);
+    });
+
+    it('is false outside the outline', () => {
+        expect(areaContains(area, ...cellToLatLng(50, 75))).toBe(false);
+        expect(areaContains(area, ...cellToLatLng(150, 100))).toBe(false);
+    });
+});
+
+describe('queryBand', () => {
+    it('answers with the band of the area containing the point', () => {
+        expect(queryBand(frame, DEFAULT_PALETTE, ...cellToLatLng(50, 62))?.min).toBe(1);
+        expect(queryBand(frame, DEFAULT_PALETTE, ...cellToLatLng(150, 100))?.min).toBe(40);
+    });
+
+    it('is undefined where it is dry, holes included', () => {
+        expect(queryBand(frame, DEFAULT_PALETTE, ...cellToLatLng(50, 50))).toBeUndefined();
+        expect(queryBand(frame, DEFAULT_PALETTE, ...cellToLatLng(10, 10))).toBeUndefined();
+    });
+});
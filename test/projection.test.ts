@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { CHToWGS, parseSwissGrid, PROJECTION_ACCURACIES, ProjectionAccuracy, WGSToCH } from '../src/utils/projection';
+import { RadarFormatError, validateRadarFrame } from '../src/utils/validate';
+
+// swisstopo's reference points: the projection centre at the old observatory
+// in Bern, and the worked example from the "approximate formulas" document
+// (46°02'38.87" N, 8°43'49.79" E).
+const REFERENCE_POINTS = [
+    { name: 'Bern', lv95: [2600000, 1200000], lv03: [600000, 200000], wgs: [46.951083, 7.438632] },
+    {
+        name: 'swisstopo example',
+        lv95: [2700000, 1100000],
+        lv03: [700000, 100000],
+        wgs: [46 + 2 / 60 + 38.87 / 3600, 8 + 43 / 60 + 49.79 / 3600],
+    },
+] as const;
+
+// Degrees and metres each accuracy is expected to hold. The precise bound is
+// set by the reference values' own rounding (0.01"), not by the projection.
+const TOLERANCE: Record<ProjectionAccuracy, { degrees: number; metres: number }> = {
+    approximate: { degrees: 2e-5, metres: 1 },
+    precise: { degrees: 3e-6, metres: 0.1 },
+};
+
+function expectNear(actual: [number, number], expected: readonly [number, number], tolerance: number): void {
+    expect(Math.abs(actual[0] - expected[0])).toBeLessThan(tolerance);
+    expect(Math.abs(actual[1] - expected[1])).toBeLessThan(tolerance);
+}
+
+describe.each(PROJECTION_ACCURACIES)('%s projection', accuracy => {
+    const tolerance = TOLERANCE[accuracy];
+
+    describe.each(REFERENCE_POINTS)('$name', point => {
+        it('projects LV95 to WGS84', () => {
+            expectNear(CHToWGS(point.lv95[0], point.lv95[1], 'LV95', accuracy), point.wgs, tolerance.degrees);
+        });
+
+        it('projects LV03 to WGS84', () => {
+            expectNear(CHToWGS(point.lv03[0], point.lv03[1], 'LV03', accuracy), point.wgs, tolerance.degrees);
+        });
+
+        it('projects WGS84 to LV95', () => {
+            expectNear(WGSToCH(point.wgs[0], point.wgs[1], 'LV95', accuracy), point.lv95, tolerance.metres);
+        });
+
+        it('projects WGS84 to LV03', () => {
+            expectNear(WGSToCH(point.wgs[0], point.wgs[1], 'LV03', accuracy), point.lv03, tolerance.metres);
+        });
+
+        it('round-trips LV03', () => {
+            const [lat, lng] = CHToWGS(point.lv03[0], point.lv03[1], 'LV03', accuracy);
+            expectNear(WGSToCH(lat, lng, 'LV03', accuracy), point.lv03, tolerance.metres);
+        });
+    });
+});
+
+describe('parseSwissGrid', () => {
+    it.each([
+        ['LV03', 'LV03'],
+        ['CH1903 / LV03', 'LV03'],
+        ['swissgrid', 'LV03'],
+        ['EPSG:21781', 'LV03'],
+        ['LV95', 'LV95'],
+        ['CH1903+ / LV95', 'LV95'],
+        ['ch-lv95', 'LV95'],
+        ['EPSG:2056', 'LV95'],
+    ])('reads "%s" as %s', (system, grid) => {
+        expect(parseSwissGrid(system)).toBe(grid);
+    });
+
+    it('does not guess at other systems', () => {
+        expect(parseSwissGrid('WGS84')).toBeUndefined();
+        expect(parseSwissGrid('EPSG:3857')).toBeUndefined();
+    });
+
+    it('makes a frame on an unknown grid a format error', () => {
+        const frame = {
+            coords: { system: 'UTM32', x_min: 0, x_max: 1, x_count: 1, y_min: 0, y_max: 1, y_count: 1 },
+            areas: [],
+        };
+        expect(() => validateRadarFrame(frame)).toThrow(RadarFormatError);
+        expect(() => validateRadarFrame(frame)).toThrow('coords.system "UTM32" is not a known Swiss grid');
+    });
+});
@@ -0,0 +1,46 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MeteoSwissRadarFrame } from '../src/utils/meteoswiss-api';
+import { RadarArchive } from '../src/utils/radar-archive';
+import { FRAME_WITH_HOLE } from './fixtures/frame-with-hole';
+
+function observed(minutesAgo: number): MeteoSwissRadarFrame {
+    const timestamp = Math.floor(Date.now() / 1000) - minutesAgo * 60;
+    return { timestamp, radar_url: `/radar/rzc/radar_rzc.${timestamp}.json`, kind: 'observed' };
+}
+
+describe('RadarArchive', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('writes each frame once however often it is offered', async () => {
+        const put = vi.spyOn(IDBObjectStore.prototype, 'put');
+        const archive = new RadarArchive('once');
+        archive.retain(24);
+        const frame = observed(10);
+
+        await archive.record(frame, FRAME_WITH_HOLE);
+        await archive.record(frame, FRAME_WITH_HOLE);
+        // As after a page reload: a fresh instance finds it already archived.
+        const reloaded = new RadarArchive('once');
+        reloaded.retain(24);
+        await reloaded.record(frame, FRAME_WITH_HOLE);
+
+        expect(put).toHaveBeenCalledTimes(2); // frame + its metadata
+        expect(await reloaded.get(frame.radar_url)).toEqual(FRAME_WITH_HOLE);
+    });
+
+    it('keeps only observed frames within the retention window', async () => {
+        const archive = new RadarArchive('window');
+        archive.retain(1);
+        const recent = observed(10);
+        const old = observed(120);
+        const forecast = { ...observed(-10), kind: 'forecast' as const };
+
+        await Promise.all([recent, old, forecast].map(frame => archive.record(frame, FRAME_WITH_HOLE)));
+
+        const listed = await archive.listFrames(0);
+        expect(listed.map(frame => frame.radar_url)).toEqual([recent.radar_url]);
+    });
+});
@@ -0,0 +1,87 @@
+// @vitest-environment jsdom
+import * as L from 'leaflet';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RadarLayer } from '../src/utils/radar-layer';
+
+// Just enough of a WebGL context for WebGLPainter to set up and paint an
+// empty frame: constants are numbers, every call succeeds.
+function stubWebGL(overrides: Record<string, unknown> = {}): WebGLRenderingContext {
+    return new Proxy(overrides, {
+        get: (target, name) => {
+            if (name in target) return target[name as string];
+            if (typeof name === 'string' && /^[A-Z_]+$/.test(name)) return 1;
+            return () => ({});
+        },
+    }) as unknown as WebGLRenderingContext;
+}
+
+describe('RadarLayer renderer fallback', () => {
+    let map: L.Map;
+    let webgl: WebGLRenderingContext | null;
+
+    beforeEach(() => {
+        webgl = null;
+        // jsdom has no canvas: hand out the stubbed WebGL context and an
+        // inert 2D one.
+        vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (this: HTMLCanvasElement, type: string) {
+            return type === 'webgl' ? webgl : { canvas: this, setTransform() {}, clearRect() {} };
+        } as never);
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        map = L.map(document.createElement('div'), { center: [46.8, 8.2], zoom: 8 });
+    });
+
+    afterEach(() => {
+        map.remove();
+        vi.restoreAllMocks();
+    });
+
+    function canvases(): HTMLCanvasElement[] {
+        return Array.from(map.getPane('overlayPane')!.querySelectorAll('canvas'));
+    }
+
+    it('paints with WebGL when the browser can', () => {
+        webgl = stubWebGL({ isContextLost: () => false });
+        const layer = new RadarLayer('webgl').addTo(map);
+        expect(layer.activeRenderer).toBe('webgl');
+    });
+
+    it('falls back to canvas without WebGL', () => {
+        const layer = new RadarLayer('webgl').addTo(map);
+        expect(layer.activeRenderer).toBe('canvas');
+        expect(canvases()).toHaveLength(1);
+    });
+
+    it('falls back to canvas on a fresh canvas when the shaders fail', () => {
+        webgl = stubWebGL({ getShaderParameter: () => false });
+        const layer = new RadarLayer('webgl').addTo(map);
+
+        expect(layer.activeRenderer).toBe('canvas');
+        expect(canvases()).toHaveLength(1);
+        // The WebGL canvas is spent; the 2D painter must have asked a new one.
+        const calls = vi.mocked(HTMLCanvasElement.prototype.getContext).mock;
+        expect(calls.contexts[calls.contexts.length - 1]).toBe(canvases()[0]);
+    });
+
+    it('falls back to canvas when the WebGL context is lost', () => {
+        let lost = false;
+        webgl = stubWebGL({ isContextLost: () => lost });
+        const layer = new RadarLayer('webgl').addTo(map);
+        expect(layer.activeRenderer).toBe('webgl');
+
+        lost = true;
+        layer.redraw();
+        expect(layer.activeRenderer).toBe('canvas');
+        expect(canvases()).toHaveLength(1);
+    });
+
+    it('switches renderer when reconfigured', () => {
+        webgl = stubWebGL({ isContextLost: () => false });
+        const layer = new RadarLayer('canvas').addTo(map);
+        expect(layer.activeRenderer).toBe('canvas');
+
+        layer.setRenderer('webgl');
+        expect(layer.activeRenderer).toBe('webgl');
+        expect(canvases()).toHaveLength(1);
+    });
+});
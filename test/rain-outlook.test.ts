@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PALETTE } from '../src/utils/palette';
+import { PointIntensity } from '../src/utils/point-query';
+import { currentFrameIndex, nextRainSpell, peakIntensity, rainOutlook } from '../src/utils/rain-outlook';
+
+const NOW = 1760774400;
+const STEP = 300;
+const [LIGHT, MODERATE, HEAVY] = [DEFAULT_PALETTE.bands[1], DEFAULT_PALETTE.bands[3], DEFAULT_PALETTE.bands[6]];
+
+// One spot every 5 minutes, frame 3 being "now": "-" is dry, "l"/"m"/"h" light,
+// moderate and heavy rain.
+function timeline(pattern: string): PointIntensity[] {
+    return pattern.split('').map((symbol, index) => ({
+        timestamp: NOW + (index - 3) * STEP,
+        kind: index <= 3 ? 'observed' : 'forecast',
+        band: { '-': undefined, l: LIGHT, m: MODERATE, h: HEAVY }[symbol],
+    }));
+}
+
+function at(index: number): number {
+    return NOW + (index - 3) * STEP;
+}
+
+describe('currentFrameIndex', () => {
+    it('is the last frame not in the future', () => {
+        expect(currentFrameIndex(timeline('-------'), NOW)).toBe(3);
+        expect(currentFrameIndex(timeline('-------'), NOW + STEP - 1)).toBe(3);
+        expect(currentFrameIndex(timeline('-------'), NOW + 10 * STEP)).toBe(6);
+    });
+
+    it('is -1 when every frame lies ahead, or there are none', () => {
+        expect(currentFrameIndex(timeline('-------'), at(0) - 1)).toBe(-1);
+        expect(currentFrameIndex([], NOW)).toBe(-1);
+    });
+});
+
+describe('rainOutlook', () => {
+    it('reports an ongoing spell ending', () => {
+        expect(rainOutlook(timeline('--mmm--'), NOW)).toEqual({ kind: 'ending', at: at(5) });
+    });
+
+    it('reports a spell starting in the future, with its band', () => {
+        expect(rainOutlook(timeline('l----hh'), NOW)).toEqual({ kind: 'starting', at: at(5), band: HEAVY });
+    });
+
+    it('reports rain lasting past the last frame', () => {
+        expect(rainOutlook(timeline('---llmm'), NOW)).toEqual({ kind: 'continuing', until: at(6) });
+    });
+
+    it('reports no rain at all', () => {
+        expect(rainOutlook(timeline('-------'), NOW)).toEqual({ kind: 'dry', until: at(6) });
+    });
+
+    it('has nothing to say without frames after now', () => {
+        expect(rainOutlook([], NOW)).toBeUndefined();
+        expect(rainOutlook(timeline('mmmm'), NOW)).toBeUndefined();
+        expect(rainOutlook(timeline('-------'), at(0) - 1)).toBeUndefined();
+    });
+});
+
+describe('nextRainSpell', () => {
+    it('is the ongoing spell from now on, with its end', () => {
+        expect(nextRainSpell(timeline('-lmm---'), NOW)).toEqual({ start: at(3), end: at(4), ongoing: true });
+    });
+
+    it('is the next spell to start, past earlier rain', () => {
+        expect(nextRainSpell(timeline('mm---l-'), NOW)).toEqual({ start: at(5), end: at(6), ongoing: false });
+    });
+
+    it('has no end when the rain lasts past the last frame', () => {
+        expect(nextRainSpell(timeline('----lhh'), NOW)).toEqual({ start: at(4), end: undefined, ongoing: false });
+    });
+
+    it('is undefined with no rain ahead, or no frames', () => {
+        expect(nextRainSpell(timeline('ll-----'), NOW)).toBeUndefined();
+        expect(nextRainSpell([], NOW)).toBeUndefined();
+    });
+});
+
+describe('peakIntensity', () => {
+    const bands = DEFAULT_PALETTE.bands;
+
+    it('is the strongest point, the earliest if the peak repeats', () => {
+        expect(peakIntensity(timeline('-lhmh--'), bands)?.timestamp).toBe(at(2));
+    });
+
+    it('is undefined when it stays dry, or there are no frames', () => {
+        expect(peakIntensity(timeline('-------'), bands)).toBeUndefined();
+        expect(peakIntensity([], bands)).toBeUndefined();
+    });
+});
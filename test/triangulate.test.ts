@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { DecodedArea, decodeFrame } from '../src/utils/decoder';
+import { mercator, MERCATOR_ORIGIN, triangulateFrame } from '../src/utils/triangulate';
+import { cellToLatLng, FRAME_WITH_HOLE } from './fixtures/frame-with-hole';
+
+const frame = decodeFrame(FRAME_WITH_HOLE);
+const { vertices, draws } = triangulateFrame(frame);
+
+type Point = [number, number];
+
+// A grid cell in the triangulation's coordinates.
+function cell(x: number, y: number): Point {
+    const [mx, my] = mercator(...cellToLatLng(x, y));
+    return [mx - MERCATOR_ORIGIN[0], my - MERCATOR_ORIGIN[1]];
+}
+
+function triangles(first: number, count: number): Array<[Point, Point, Point]> {
+    const result: Array<[Point, Point, Point]> = [];
+    for (let v = first; v < first + count; v += 3) {
+        const corner = (n: number): Point => [vertices[(v + n) * 2], vertices[(v + n) * 2 + 1]];
+        result.push([corner(0), corner(1), corner(2)]);
+    }
+    return result;
+}
+
+function signedArea([a, b, c]: [Point, Point, Point]): number {
+    return ((b[0] - a[0]) * (c[1] - a[1]) - (c[0] - a[0]) * (b[1] - a[1])) / 2;
+}
+
+function covers(triangle: [Point, Point, Point], point: Point): boolean {
+    const [a, b, c] = triangle;
+    const sides = [signedArea([a, b, point]), signedArea([b, c, point]), signedArea([c, a, point])];
+    return sides.every(side => side >= 0) || sides.every(side => side <= 0);
+}
+
+// Shoelace area of one decoded ring, in the same coordinates.
+function ringArea(area: DecodedArea, ring: number): number {
+    let sum = 0;
+    for (let i = area.rings[ring], j = area.rings[ring + 1] - 1; i < area.rings[ring + 1]; j = i++) {
+        const a = mercator(area.coordinates[j * 2], area.coordinates[j * 2 + 1]);
+        const b = mercator(area.coordinates[i * 2], area.coordinates[i * 2 + 1]);
+        sum += a[0] * b[1] - b[0] * a[1];
+    }
+    return Math.abs(sum) / 2;
+}
+
+describe('triangulateFrame', () => {
+    it('has one draw per area, back to back over the whole buffer', () => {
+        expect(draws.map(draw => draw.color)).toEqual(['#0001fc', '#ff1900']);
+        expect(draws[0].first).toBe(0);
+        expect(draws[1].first).toBe(draws[0].count);
+        expect(draws[1].first + draws[1].count).toBe(vertices.length / 2);
+        draws.forEach(draw => expect(draw.count % 3).toBe(0));
+    });
+
+    it('leaves the hole out of the rain area', () => {
+        const area = triangles(draws[0].first, draws[0].count);
+        const centre = cell(50, 50.05);
+
+        expect(area.some(triangle => covers(triangle, centre))).toBe(false);
+        expect(area.some(triangle => covers(triangle, cell(50, 62)))).toBe(true);
+
+        const expected = ringArea(frame.areas[0], 0) - ringArea(frame.areas[0], 1);
+        const filled = area.reduce((sum, triangle) => sum + Math.abs(signedArea(triangle)), 0);
+        expect(filled / expected).toBeCloseTo(1, 4);
+    });
+
+    it('fills an outline whose only hole was dropped as degenerate', () => {
+        expect(draws[1].count).toBe(6);
+    });
+});
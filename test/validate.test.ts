@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { RadarFormatError, validateVersions } from '../src/utils/validate';
+
+describe('validateVersions', () => {
+    it('returns the radar animation version', () => {
+        const versions = validateVersions({ 'precipitation/animation': '20261018_0900' });
+        expect(versions['precipitation/animation']).toBe('20261018_0900');
+    });
+
+    it('leaves other products alone, whatever their format', () => {
+        const json = {
+            'precipitation/animation': '20261018_0900',
+            'weather-pill/forecast': { version: 3 },
+            'warnings/overview': null,
+        };
+        expect(() => validateVersions(json)).not.toThrow();
+    });
+
+    it('rejects a missing or malformed radar animation entry', () => {
+        expect(() => validateVersions({ 'warnings/overview': '1' })).toThrow(RadarFormatError);
+        expect(() => validateVersions({ 'precipitation/animation': 20261018 })).toThrow(
+            'versions["precipitation/animation"] is not a string',
+        );
+    });
+});